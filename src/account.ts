@@ -0,0 +1,62 @@
+import { z } from 'zod'
+import { USE_MOCKS } from './config.js'
+import { captureDebugArtifacts } from './debugArtifacts.js'
+import type { AmazonCookie, ProfileSettings } from './profileManager.js'
+import { closePage, navigateTo, openPage } from './utils.js'
+
+// ##################################
+// Account Probe Types
+// ##################################
+
+export const AccountProbeResultSchema = z.object({
+  loggedIn: z.boolean(),
+  accountName: z.string().nullable(),
+  marketplace: z.string(),
+  url: z.string(),
+})
+
+export type AccountProbeResult = z.infer<typeof AccountProbeResultSchema>
+
+// ##################################
+// Account Probe
+// ##################################
+
+/**
+ * Load the Amazon home page with the given cookies and check whether the session is logged in.
+ * Reads the account holder's name from the navigation bar greeting ("Hello, Jane").
+ */
+export async function probeAccount(cookies: AmazonCookie[], domain: string, settings: ProfileSettings = {}): Promise<AccountProbeResult> {
+  if (USE_MOCKS) {
+    throw new Error('The logged-in probe is not available when USE_MOCKS is enabled.')
+  }
+
+  const url = `https://www.${domain}/-/${settings.language ?? 'en'}/`
+  console.error(`[INFO][validate-profile] Probing login status from ${url}`)
+
+  const page = await openPage('validate-profile', { cookies, settings, domain })
+
+  try {
+    await navigateTo(page, url, 'domcontentloaded')
+
+    const greeting = await page
+      .$eval('#nav-link-accountList-nav-line-1', el => el.textContent?.trim() || '')
+      .catch(() => '')
+    const loggedIn = greeting !== '' && !/sign in/i.test(greeting)
+    const accountName = loggedIn ? greeting.replace(/^[^,]*,\s*/, '').trim() || null : null
+    const marketplace = new URL(page.url()).hostname.replace(/^www\./, '')
+
+    console.error(`[INFO][validate-profile] Logged in: ${loggedIn}, account: ${accountName}, marketplace: ${marketplace}`)
+
+    return {
+      loggedIn,
+      accountName,
+      marketplace,
+      url: page.url(),
+    }
+  } catch (error) {
+    await captureDebugArtifacts(page, 'validate-profile', error)
+    throw error
+  } finally {
+    await closePage(page)
+  }
+}
@@ -1,12 +1,46 @@
-import { getCartContent } from './cart.js'
-
-async function main() {
-  try {
-    const cartContent = await getCartContent()
-    console.log('getCartContent result:')
-    console.log(JSON.stringify(cartContent, null, 2))
-  } catch (error) {
-    console.error('Error fetching cart content:', error)
-  }
+import fs from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio'
+import { describe, expect, test } from 'vitest'
+import { CartContentSchema, extractCartPageData, getCartContent } from './cart.js'
+import { MOCKS_DIR } from './config.js'
+
+function loadMock(name: string): cheerio.CheerioAPI {
+  return cheerio.load(fs.readFileSync(path.join(MOCKS_DIR, name), 'utf-8'))
 }
-main().catch(console.error)
+
+describe('extractCartPageData', () => {
+  test('extracts the items and totals of the cart', () => {
+    const cart = extractCartPageData(loadMock('getCartContent.html'))
+
+    expect(CartContentSchema.parse(cart)).toEqual(cart)
+    expect(cart.isEmpty).toBe(false)
+    expect(cart.totalItems).toBe(2)
+    expect(cart.subtotal).toBe('€30.98')
+    expect(cart.items.map(item => item.asin)).toEqual(['B0B15FKR8T', 'B071NVMGBK'])
+    expect(cart.items[1]).toMatchObject({
+      title: 'Igennus Vitamin D3 2000 IU Daily Vegetarian Colecalciferol 1 Year Supply 365 Small Tablets',
+      price: '€10.99',
+      quantity: 1,
+      availability: 'In stock',
+      isSelected: true,
+    })
+  })
+
+  test('detects the empty cart', () => {
+    const $ = cheerio.load('<div id="sc-active-cart"><h2>Your Amazon Cart is empty</h2></div>')
+    expect(extractCartPageData($)).toEqual({ isEmpty: true, items: [] })
+  })
+
+  test('matches the golden file', async () => {
+    const cart = extractCartPageData(loadMock('getCartContent.html'))
+    await expect(JSON.stringify(cart, null, 2) + '\n').toMatchFileSnapshot('../mocks/golden/getCartContent.json')
+  })
+})
+
+describe('getCartContent', () => {
+  test('parses the mock page when USE_MOCKS is enabled', async () => {
+    const cart = await getCartContent()
+    expect(cart).toEqual(extractCartPageData(loadMock('getCartContent.html')))
+  })
+})
@@ -1,12 +1,59 @@
-import { getOrdersHistory } from './orders.js'
-
-async function main() {
-  try {
-    const orders = await getOrdersHistory()
-    console.log('getOrdersHistory result:')
-    console.log(JSON.stringify(orders, null, 2))
-  } catch (error) {
-    console.error('Error fetching orders:', error)
-  }
+import fs from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio'
+import { describe, expect, test } from 'vitest'
+import { MOCKS_DIR } from './config.js'
+import { extractOrdersHistoryPageData, getOrdersHistory, Order, OrderSchema } from './orders.js'
+
+function extractMockOrders(): Order[] {
+  const $ = cheerio.load(fs.readFileSync(path.join(MOCKS_DIR, 'getOrdersHistory.html'), 'utf-8'))
+  return $('.order-card')
+    .map((_index, element) => extractOrdersHistoryPageData($, $(element)))
+    .get()
 }
-main().catch(console.error)
+
+describe('extractOrdersHistoryPageData', () => {
+  test('extracts every order card', () => {
+    const orders = extractMockOrders()
+
+    // The mock was exported with the order cards followed by their container, so it holds each card twice
+    expect(orders).toHaveLength(20)
+    orders.forEach(order => expect(OrderSchema.parse(order)).toEqual(order))
+    const orderNumbers = orders.map(order => order.orderInfo.orderNumber)
+    expect(orderNumbers.slice(10)).toEqual(orderNumbers.slice(0, 10))
+    expect(new Set(orderNumbers).size).toBe(10)
+  })
+
+  test('extracts the order information and items', () => {
+    const [order] = extractMockOrders()
+
+    expect(order.orderInfo).toEqual({
+      orderNumber: '402-1544222-8689967',
+      orderDate: '14 June 2025',
+      total: '€32.32',
+      deliveryAddress: {
+        name: 'Amazon Locker - rafael',
+        address: 'Repsol MaceCl. Paseo Santa Maria De La Cabeza 18Madrid, Madrid 28045',
+        country: 'Spain',
+      },
+      status: 'Collected on 16 June',
+      collectionDate: '16 June',
+    })
+    expect(order.items.map(item => item.asin)).toEqual(['1509898298', '0571390862'])
+    expect(order.items[0]).toMatchObject({
+      title: 'All the lovers in the night: Mieko Kawakami',
+      returnEligible: true,
+      returnDate: '15 October 2025',
+    })
+  })
+
+  test('matches the golden file', async () => {
+    await expect(JSON.stringify(extractMockOrders(), null, 2) + '\n').toMatchFileSnapshot('../mocks/golden/getOrdersHistory.json')
+  })
+})
+
+describe('getOrdersHistory', () => {
+  test('parses the mock page when USE_MOCKS is enabled', async () => {
+    expect(await getOrdersHistory()).toEqual(extractMockOrders())
+  })
+})
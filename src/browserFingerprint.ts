@@ -0,0 +1,73 @@
+import type { ProfileSettings } from './profileManager.js'
+
+/**
+ * How the browser pages of a profile present themselves to Amazon
+ */
+export interface BrowserFingerprint {
+  /** Proxy URL, may hold the proxy credentials */
+  proxy?: string
+  /** User agent, the one of the launched Chromium when not set */
+  userAgent?: string
+  acceptLanguage: string
+  timezone: string
+  viewport: { width: number; height: number }
+}
+
+/** Locale and timezone of a typical shopper of each marketplace */
+const MARKETPLACE_LOCALES: Record<string, { locale: string; timezone: string }> = {
+  'amazon.com': { locale: 'en-US', timezone: 'America/New_York' },
+  'amazon.ca': { locale: 'en-CA', timezone: 'America/Toronto' },
+  'amazon.com.mx': { locale: 'es-MX', timezone: 'America/Mexico_City' },
+  'amazon.com.br': { locale: 'pt-BR', timezone: 'America/Sao_Paulo' },
+  'amazon.co.uk': { locale: 'en-GB', timezone: 'Europe/London' },
+  'amazon.de': { locale: 'de-DE', timezone: 'Europe/Berlin' },
+  'amazon.fr': { locale: 'fr-FR', timezone: 'Europe/Paris' },
+  'amazon.it': { locale: 'it-IT', timezone: 'Europe/Rome' },
+  'amazon.es': { locale: 'es-ES', timezone: 'Europe/Madrid' },
+  'amazon.nl': { locale: 'nl-NL', timezone: 'Europe/Amsterdam' },
+  'amazon.com.be': { locale: 'fr-BE', timezone: 'Europe/Brussels' },
+  'amazon.se': { locale: 'sv-SE', timezone: 'Europe/Stockholm' },
+  'amazon.pl': { locale: 'pl-PL', timezone: 'Europe/Warsaw' },
+  'amazon.com.tr': { locale: 'tr-TR', timezone: 'Europe/Istanbul' },
+  'amazon.ae': { locale: 'en-AE', timezone: 'Asia/Dubai' },
+  'amazon.sa': { locale: 'ar-SA', timezone: 'Asia/Riyadh' },
+  'amazon.in': { locale: 'en-IN', timezone: 'Asia/Kolkata' },
+  'amazon.co.jp': { locale: 'ja-JP', timezone: 'Asia/Tokyo' },
+  'amazon.sg': { locale: 'en-SG', timezone: 'Asia/Singapore' },
+  'amazon.com.au': { locale: 'en-AU', timezone: 'Australia/Sydney' },
+}
+
+const DEFAULT_VIEWPORT = { width: 1366, height: 768 }
+
+/**
+ * Build the Accept-Language header of a locale, e.g. "de-DE,de;q=0.9,en;q=0.8" for "de-DE"
+ */
+function toAcceptLanguage(locale: string): string {
+  const language = locale.split('-')[0]
+  return language === 'en' ? `${locale},en;q=0.9` : `${locale},${language};q=0.9,en;q=0.8`
+}
+
+/**
+ * Get the browser fingerprint of a profile: its settings, or the locale and timezone of its marketplace
+ * so an amazon.de profile looks like a browser in Germany
+ */
+export function getBrowserFingerprint(settings: ProfileSettings, domain: string): BrowserFingerprint {
+  const { locale, timezone } = MARKETPLACE_LOCALES[domain] ?? MARKETPLACE_LOCALES['amazon.com']
+  return {
+    proxy: settings.proxy,
+    userAgent: settings.userAgent,
+    acceptLanguage: settings.acceptLanguage ?? toAcceptLanguage(locale),
+    timezone: settings.timezone ?? timezone,
+    viewport: settings.viewport ?? DEFAULT_VIEWPORT,
+  }
+}
+
+/**
+ * Get the languages of an Accept-Language header, in order of preference, for `navigator.languages`
+ */
+export function getNavigatorLanguages(acceptLanguage: string): string[] {
+  return acceptLanguage
+    .split(',')
+    .map(entry => entry.split(';')[0].trim())
+    .filter(language => language !== '')
+}
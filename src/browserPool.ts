@@ -0,0 +1,381 @@
+import fs from 'fs'
+import puppeteer from 'puppeteer'
+import { BrowserFingerprint, getNavigatorLanguages } from './browserFingerprint.js'
+import { BROWSER_ARGS, BROWSER_IDLE_TIMEOUT_MS, CHROMIUM_PATH, IS_BROWSER_VISIBLE, MAX_BROWSER_PAGES, profileManager } from './config.js'
+import type { AmazonCookie } from './profileManager.js'
+
+/** Common locations of Chromium and Chrome, tried after the build downloaded by Puppeteer */
+const CHROMIUM_CANDIDATES = [
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/usr/lib/chromium/chromium',
+  '/snap/bin/chromium',
+  '/usr/bin/google-chrome-stable',
+  '/usr/bin/google-chrome',
+  '/opt/google/chrome/chrome',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+  'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+]
+
+/**
+ * Browser context holding the cookies of a profile, shared by the operations running for this profile
+ */
+interface PooledContext {
+  /** Profile the context belongs to, null for a context used by a single page */
+  profile: string | null
+  fingerprint: BrowserFingerprint
+  context: Promise<puppeteer.BrowserContext>
+  openPages: number
+  idleTimer?: NodeJS.Timeout
+  /** Dropped from the pool while pages were open, e.g. the cookies of the profile were replaced since */
+  invalidated?: boolean
+}
+
+/**
+ * Keeps a single Chromium running, with one warm browser context per profile, instead of launching a browser
+ * and injecting the cookies for every operation (which takes seconds on a Raspberry Pi).
+ * - The context of a profile is closed after `browserIdleTimeoutMs` without operations, and the browser once no context is left
+ * - A crashed browser is relaunched on the next operation
+ * - At most `maxBrowserPages` pages are open at once, the next operations wait for a page to be released
+ */
+export class BrowserPool {
+  private browser: Promise<puppeteer.Browser> | null = null
+  private launchedBrowser: puppeteer.Browser | null = null
+  private contexts = new Map<string, PooledContext>()
+  private pageContexts = new WeakMap<puppeteer.Page, PooledContext>()
+  private openPages = 0
+  private pageWaiters: (() => void)[] = []
+  private shuttingDown = false
+
+  /**
+   * Open a page in the browser context of a profile, creating the context with the given cookies and fingerprint if needed.
+   * With a null profile, the page gets its own context, closed with the page.
+   * Every page must be given back with `releasePage`.
+   */
+  async acquirePage(
+    profile: string | null,
+    cookies: AmazonCookie[],
+    fingerprint: BrowserFingerprint,
+    signal?: AbortSignal
+  ): Promise<puppeteer.Page> {
+    if (this.shuttingDown) {
+      throw new Error('The browser is shutting down')
+    }
+    await this.waitForFreePage(signal)
+
+    this.openPages++
+    let pooled: PooledContext | undefined
+    try {
+      pooled = this.getContext(profile, cookies, fingerprint)
+      clearTimeout(pooled.idleTimer)
+      pooled.openPages++
+      const page = await (await pooled.context).newPage()
+      await preparePage(page, pooled.fingerprint)
+      this.pageContexts.set(page, pooled)
+      return page
+    } catch (error) {
+      if (pooled) {
+        pooled.openPages--
+        this.handleContextReleased(pooled)
+      }
+      this.releaseFreePage()
+      throw error
+    }
+  }
+
+  /**
+   * Close a page opened with `acquirePage`
+   */
+  async releasePage(page: puppeteer.Page): Promise<void> {
+    const pooled = this.pageContexts.get(page)
+    if (!pooled) {
+      return
+    }
+    this.pageContexts.delete(page)
+
+    try {
+      if (!page.isClosed()) {
+        await page.close()
+      }
+    } catch (error: any) {
+      console.error(`[WARN] Failed to close the page: ${error.message}`)
+    }
+
+    pooled.openPages--
+    this.handleContextReleased(pooled)
+    this.releaseFreePage()
+  }
+
+  /**
+   * Drop the browser context of a profile, e.g. when its cookies were replaced.
+   * The pages still open keep working, the next operations get a new context.
+   */
+  invalidate(profile: string): void {
+    const pooled = this.contexts.get(profile)
+    if (!pooled) {
+      return
+    }
+    this.contexts.delete(profile)
+    pooled.invalidated = true
+    if (pooled.openPages === 0) {
+      clearTimeout(pooled.idleTimer)
+      void this.closeContext(pooled)
+    }
+  }
+
+  /**
+   * Set cookies in the warm browser context of a profile, e.g. the cookies Amazon rotated in an HTTP request
+   */
+  async setCookies(profile: string, cookies: AmazonCookie[]): Promise<void> {
+    const pooled = this.contexts.get(profile)
+    if (pooled) {
+      await (await pooled.context).setCookie(...cookies)
+    }
+  }
+
+  /**
+   * Whether the context of a page was invalidated since the page opened: its cookies may not belong to the profile anymore
+   */
+  isInvalidated(page: puppeteer.Page): boolean {
+    return this.pageContexts.get(page)?.invalidated === true
+  }
+
+  /**
+   * Close the browser, when the server exits
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true
+    this.contexts.forEach(pooled => clearTimeout(pooled.idleTimer))
+    this.contexts.clear()
+    await this.closeBrowser()
+  }
+
+  /**
+   * Get the pooled context of a profile, or create a new one
+   */
+  private getContext(profile: string | null, cookies: AmazonCookie[], fingerprint: BrowserFingerprint): PooledContext {
+    const existing = profile === null ? undefined : this.contexts.get(profile)
+    if (existing) {
+      return existing
+    }
+
+    const pooled: PooledContext = { profile, fingerprint, context: this.createContext(cookies, fingerprint), openPages: 0 }
+    if (profile !== null) {
+      this.contexts.set(profile, pooled)
+      // Do not keep a context that failed to be created, the next operation tries again
+      pooled.context.catch(() => {
+        if (this.contexts.get(profile) === pooled) {
+          this.contexts.delete(profile)
+        }
+      })
+    }
+    return pooled
+  }
+
+  private async createContext(cookies: AmazonCookie[], fingerprint: BrowserFingerprint): Promise<puppeteer.BrowserContext> {
+    // The proxy credentials are answered by each page, see `preparePage`
+    const proxy = fingerprint.proxy ? new URL(fingerprint.proxy) : null
+    const context = await (await this.getBrowser()).createBrowserContext({
+      proxyServer: proxy ? `${proxy.protocol}//${proxy.host}` : undefined,
+    })
+    if (proxy) {
+      console.error(`[INFO] Routing the browser context through the proxy ${proxy.host}`)
+    }
+    if (cookies.length > 0) {
+      await context.setCookie(...cookies)
+      console.error('[INFO] Set Amazon cookies in the browser')
+    } else {
+      console.error('[WARN] No Amazon cookies found, proceeding without them')
+    }
+    return context
+  }
+
+  /**
+   * Keep the context of a profile warm once its last page is released, or close it right away
+   * when it is not pooled anymore
+   */
+  private handleContextReleased(pooled: PooledContext): void {
+    if (pooled.openPages > 0) {
+      return
+    }
+    if (pooled.profile === null || this.contexts.get(pooled.profile) !== pooled) {
+      void this.closeContext(pooled)
+      return
+    }
+
+    const profile = pooled.profile
+    pooled.idleTimer = setTimeout(() => {
+      console.error(`[INFO] Closing the idle browser context of profile ${profile}`)
+      this.invalidate(profile)
+    }, BROWSER_IDLE_TIMEOUT_MS)
+    pooled.idleTimer.unref()
+  }
+
+  private async closeContext(pooled: PooledContext): Promise<void> {
+    try {
+      await (await pooled.context).close()
+    } catch {
+      // The context failed to be created, or the browser is already gone
+    }
+    if (this.contexts.size === 0 && this.openPages === 0) {
+      await this.closeBrowser()
+    }
+  }
+
+  private getBrowser(): Promise<puppeteer.Browser> {
+    if (!this.browser) {
+      this.browser = this.launchBrowser()
+      this.browser.catch(() => {
+        this.browser = null
+      })
+    }
+    return this.browser
+  }
+
+  private async launchBrowser(): Promise<puppeteer.Browser> {
+    const executablePath = findChromium()
+    console.error(`[INFO] Launching the browser ${executablePath}`)
+    const browser = await puppeteer.launch({
+      headless: !IS_BROWSER_VISIBLE,
+      devtools: false,
+      executablePath,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-web-security',
+        '--disable-blink-features=AutomationControlled',
+        '--disable-gpu',
+        ...BROWSER_ARGS,
+      ],
+      ignoreDefaultArgs: ['--enable-automation'],
+      defaultViewport: null,
+      // The server closes the browser itself on exit, see `shutdown`
+      handleSIGINT: false,
+      handleSIGTERM: false,
+      handleSIGHUP: false,
+    })
+    this.launchedBrowser = browser
+    browser.once('disconnected', () => this.handleBrowserDisconnected(browser))
+    return browser
+  }
+
+  /**
+   * Forget a browser that crashed, so the next operation launches a new one
+   */
+  private handleBrowserDisconnected(browser: puppeteer.Browser): void {
+    if (this.launchedBrowser !== browser) {
+      return
+    }
+    console.error('[WARN] The browser disconnected unexpectedly, it will be relaunched by the next operation')
+    this.launchedBrowser = null
+    this.browser = null
+    this.contexts.forEach(pooled => clearTimeout(pooled.idleTimer))
+    this.contexts.clear()
+  }
+
+  private async closeBrowser(): Promise<void> {
+    const browser = this.browser
+    this.browser = null
+    if (!browser) {
+      return
+    }
+    try {
+      const launchedBrowser = await browser
+      if (this.launchedBrowser === launchedBrowser) {
+        this.launchedBrowser = null
+      }
+      console.error('[INFO] Closing the browser')
+      await launchedBrowser.close()
+    } catch (error: any) {
+      console.error(`[WARN] Failed to close the browser: ${error.message}`)
+    }
+  }
+
+  private async waitForFreePage(signal?: AbortSignal): Promise<void> {
+    while (this.openPages >= MAX_BROWSER_PAGES) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.pageWaiters = this.pageWaiters.filter(waiter => waiter !== onFreePage)
+          reject(new Error('The request was cancelled by the client'))
+        }
+        const onFreePage = () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+        if (signal?.aborted) {
+          onAbort()
+          return
+        }
+        this.pageWaiters.push(onFreePage)
+        signal?.addEventListener('abort', onAbort, { once: true })
+      })
+    }
+  }
+
+  private releaseFreePage(): void {
+    this.openPages--
+    this.pageWaiters.shift()?.()
+  }
+}
+
+/**
+ * Find the Chromium executable: the `chromiumPath` setting, or with "auto" the build downloaded by Puppeteer
+ * and then the common install locations
+ */
+function findChromium(): string {
+  if (CHROMIUM_PATH !== 'auto') {
+    return CHROMIUM_PATH
+  }
+
+  let bundledPath: string | undefined
+  try {
+    bundledPath = puppeteer.executablePath()
+  } catch {
+    // No build downloaded for this platform, e.g. on ARM64
+  }
+  const executablePath = [bundledPath, ...CHROMIUM_CANDIDATES].find(candidate => candidate && fs.existsSync(candidate))
+  if (!executablePath) {
+    throw new Error('Could not find Chromium. Install it (e.g. `sudo apt install chromium`) or set its path in PUPPETEER_EXECUTABLE_PATH.')
+  }
+  return executablePath
+}
+
+/**
+ * Apply the fingerprint of the profile to a new page, and hide the automation indicators
+ */
+async function preparePage(page: puppeteer.Page, fingerprint: BrowserFingerprint): Promise<void> {
+  // Remove automation indicators, and report the languages of the profile
+  const languages = getNavigatorLanguages(fingerprint.acceptLanguage)
+  await page.evaluateOnNewDocument(languages => {
+    Object.defineProperty(navigator, 'webdriver', {
+      get: () => undefined,
+    })
+    Object.defineProperty(navigator, 'languages', {
+      get: () => languages,
+    })
+    Object.defineProperty(navigator, 'language', {
+      get: () => languages[0],
+    })
+  }, languages)
+
+  // The headless user agent gives the automation away
+  const userAgent = fingerprint.userAgent ?? (await page.browser().userAgent()).replace('HeadlessChrome', 'Chrome')
+  await page.setUserAgent(userAgent)
+  await page.setExtraHTTPHeaders({ 'Accept-Language': fingerprint.acceptLanguage })
+  await page.emulateTimezone(fingerprint.timezone)
+  await page.setViewport(fingerprint.viewport)
+
+  if (fingerprint.proxy) {
+    const { username, password } = new URL(fingerprint.proxy)
+    if (username) {
+      await page.authenticate({ username: decodeURIComponent(username), password: decodeURIComponent(password) })
+    }
+  }
+}
+
+export const browserPool = new BrowserPool()
+
+// The next operations of a profile must not reuse a context holding its previous cookies or settings
+profileManager.onProfileChanged(profile => browserPool.invalidate(profile))
@@ -1,31 +1,54 @@
 import * as cheerio from 'cheerio'
 import fs from 'fs'
-import { USE_MOCKS, EXPORT_LIVE_SCRAPING_FOR_MOCKS, getAmazonDomain } from './config.js'
-import { createBrowserAndPage, getTimestamp, throwIfNotLoggedIn } from './utils.js'
-
-const __dirname = new URL('.', import.meta.url).pathname
+import path from 'path'
+import { z } from 'zod'
+import { USE_MOCKS, EXPORT_LIVE_SCRAPING_FOR_MOCKS, MOCKS_DIR, SELECTOR_TIMEOUT_MS, getAmazonUrl } from './config.js'
+import { captureDebugArtifacts } from './debugArtifacts.js'
+import { AmazonError, InvalidInputError, ProductUnavailableError, SelectorMissingError } from './errors.js'
+import { reportProgress } from './requestContext.js'
+import { closePage, getTimestamp, navigateTo, openPage, sleep, throwIfCancelled, throwIfNotLoggedIn } from './utils.js'
 
 // ##################################
 // Cart Content Types
 // ##################################
 
-interface CartItem {
-  title: string
-  price: string
-  quantity: number
-  image?: string
-  productUrl?: string
-  asin?: string
-  availability: string
-  isSelected: boolean
-}
+export const CartItemSchema = z.object({
+  title: z.string(),
+  price: z.string(),
+  quantity: z.number(),
+  image: z.string().optional(),
+  /** Relative link to the product page */
+  productUrl: z.string().optional(),
+  asin: z.string().optional(),
+  availability: z.string(),
+  isSelected: z.boolean(),
+})
 
-interface CartContent {
-  isEmpty: boolean
-  items: CartItem[]
-  subtotal?: string
-  totalItems?: number
-}
+export type CartItem = z.infer<typeof CartItemSchema>
+
+export const CartContentSchema = z.object({
+  isEmpty: z.boolean(),
+  items: z.array(CartItemSchema),
+  subtotal: z.string().optional(),
+  totalItems: z.number().optional(),
+})
+
+export type CartContent = z.infer<typeof CartContentSchema>
+
+export const AddToCartResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+})
+
+export type AddToCartResult = z.infer<typeof AddToCartResultSchema>
+
+export const ClearCartResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  itemsRemoved: z.number(),
+})
+
+export type ClearCartResult = z.infer<typeof ClearCartResultSchema>
 
 // ##################################
 // Get Cart Content
@@ -35,33 +58,38 @@ export async function getCartContent(): Promise<CartContent> {
   let html: string
   if (USE_MOCKS) {
     console.error('[INFO][get-cart-content] Fetching cart content from mocks')
-    const mockPath = `${__dirname}/../mocks/getCartContent.html`
+    const mockPath = path.join(MOCKS_DIR, 'getCartContent.html')
     html = fs.readFileSync(mockPath, 'utf-8')
   } else {
-    const domain = getAmazonDomain()
-    const url = `https://www.${domain}/-/en/gp/cart/view.html?ref_=nav_cart`
+    const url = getAmazonUrl('/gp/cart/view.html?ref_=nav_cart')
     console.error(`[INFO][get-cart-content] Fetching cart content from ${url}`)
 
-    const { browser, page } = await createBrowserAndPage()
+    await reportProgress(0, 3, 'Opening a browser page')
+    const page = await openPage('get-cart-content')
 
     try {
       // Navigate to the cart page
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 })
+      await reportProgress(1, 3, 'Loading the cart page')
+      await navigateTo(page, url)
 
       // Handle login if needed
       await throwIfNotLoggedIn(page)
 
       // Wait for the cart content to load
       try {
-        await page.waitForSelector('#sc-active-cart', { timeout: 10000 })
+        await page.waitForSelector('#sc-active-cart', { timeout: SELECTOR_TIMEOUT_MS })
       } catch (e) {
-        throw new Error('[INFO][get-cart-content] Could not find cart container. Ensure you are logged in and the cart is accessible.')
+        throwIfCancelled()
+        throw new SelectorMissingError(
+          'Could not find the cart container. Ensure you are logged in and the cart is accessible.',
+          '#sc-active-cart'
+        )
       }
 
       if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
         // Export only the `#sc-active-cart` content to a mock file
         const timestamp = getTimestamp()
-        const mockPath = `${__dirname}/../mocks/getCartContent_${timestamp}.html`
+        const mockPath = path.join(MOCKS_DIR, `getCartContent_${timestamp}.html`)
         const cartHtml = await page.$eval('#sc-active-cart', el => el.outerHTML)
         fs.writeFileSync(mockPath, cartHtml)
         console.error(`[INFO][get-cart-content] Exported cart container HTML to ${mockPath}`)
@@ -69,16 +97,20 @@ export async function getCartContent(): Promise<CartContent> {
 
       // Get the HTML content after JavaScript execution
       html = await page.content()
+    } catch (error) {
+      await captureDebugArtifacts(page, 'get-cart-content', error)
+      throw error
     } finally {
-      await browser.close()
+      await closePage(page)
     }
   }
 
+  await reportProgress(2, 3, 'Extracting the cart items')
   const $ = cheerio.load(html)
   return extractCartPageData($)
 }
 
-function extractCartPageData($: cheerio.CheerioAPI): CartContent {
+export function extractCartPageData($: cheerio.CheerioAPI): CartContent {
   const $cartContainer = $('#sc-active-cart')
 
   // Check if cart is empty
@@ -146,27 +178,29 @@ function extractCartPageData($: cheerio.CheerioAPI): CartContent {
 // Add to Cart
 // ##################################
 
-export async function addToCart(asin: string): Promise<{ success: boolean; message: string }> {
+export async function addToCart(asin: string): Promise<AddToCartResult> {
   if (!asin || asin.length !== 10) {
-    throw new Error('Invalid ASIN provided. ASIN should be a 10-character string.')
+    throw new InvalidInputError('Invalid ASIN provided. ASIN should be a 10-character string.')
   }
 
-  const domain = getAmazonDomain()
-  const url = `https://www.${domain}/-/en/gp/product/${asin}`
+  const url = getAmazonUrl(`/gp/product/${asin}`)
   console.error(`[INFO][add-to-cart] Adding product ${asin} to cart from ${url}`)
 
-  const { browser, page } = await createBrowserAndPage()
+  await reportProgress(0, 5, 'Opening a browser page')
+  const page = await openPage('add-to-cart')
 
   try {
     // Navigate to the product page
-    await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 })
+    await reportProgress(1, 5, 'Loading the product page')
+    await navigateTo(page, url)
 
     // Handle login if needed
     await throwIfNotLoggedIn(page)
 
     // Wait for the page to load completely
-    await page.waitForSelector('body', { timeout: 10000 })
+    await page.waitForSelector('body', { timeout: SELECTOR_TIMEOUT_MS })
 
+    await reportProgress(2, 5, 'Checking the purchase options')
     try {
       // Check for subscribe and save option using XPath
       const xpath = "//div[contains(@class, 'accordion-caption')]//span[contains(text(), 'One-time purchase')]"
@@ -175,7 +209,7 @@ export async function addToCart(asin: string): Promise<{ success: boolean; messa
         console.error(`[INFO][add-to-cart] The item is a subscribe and save product, clicking the one-time purchase option`)
         element.click()
         // Wait for the page to update
-        await new Promise(resolve => setTimeout(resolve, 2000))
+        await sleep(2000)
       } else {
         console.error('[INFO][add-to-cart] No subscribe and save option found, proceeding to add to cart')
       }
@@ -184,12 +218,15 @@ export async function addToCart(asin: string): Promise<{ success: boolean; messa
     }
 
     // Find and click the add to cart button
+    throwIfCancelled()
+    await reportProgress(3, 5, 'Adding the product to the cart')
     try {
-      await page.waitForSelector('#add-to-cart-button', { timeout: 10000 })
+      await page.waitForSelector('#add-to-cart-button', { timeout: SELECTOR_TIMEOUT_MS })
       await page.click('#add-to-cart-button')
       console.error('[INFO][add-to-cart] Clicked add to cart button')
     } catch (error) {
-      throw new Error(`Could not find or click the add to cart button: ${error}`)
+      throwIfCancelled()
+      throw new ProductUnavailableError(`Product ${asin} cannot be added to the cart, it has no add to cart button: ${error}`, asin)
     }
 
     // If there is an insurance option, refuse it
@@ -202,6 +239,7 @@ export async function addToCart(asin: string): Promise<{ success: boolean; messa
     }
 
     // Wait for the confirmation page/modal
+    await reportProgress(4, 5, 'Waiting for the cart confirmation')
     try {
       await page.waitForSelector('#sw-atc-confirmation', { timeout: 15000 })
 
@@ -218,10 +256,20 @@ export async function addToCart(asin: string): Promise<{ success: boolean; messa
         message: `Product ${asin} successfully added to cart`,
       }
     } catch (error) {
-      throw new Error(`Could not verify that the product was added to cart: ${error}`)
+      throwIfCancelled()
+      // Not retryable: the click may have added the product, retrying blindly would add it twice
+      throw new SelectorMissingError(
+        `Could not verify that the product was added to cart: ${error}`,
+        '#sw-atc-confirmation',
+        'Check the cart with get-cart-content before trying again, the product may have been added.',
+        false
+      )
     }
+  } catch (error) {
+    await captureDebugArtifacts(page, 'add-to-cart', error)
+    throw error
   } finally {
-    await browser.close()
+    await closePage(page)
   }
 }
 
@@ -229,22 +277,23 @@ export async function addToCart(asin: string): Promise<{ success: boolean; messa
 // Clear Cart
 // ##################################
 
-export async function clearCart() {
-  const domain = getAmazonDomain()
-  const url = `https://www.${domain}/-/en/gp/cart/view.html`
+export async function clearCart(): Promise<ClearCartResult> {
+  const url = getAmazonUrl('/gp/cart/view.html')
   console.error(`[INFO][clear-cart] Clearing cart at ${url}`)
 
-  const { browser, page } = await createBrowserAndPage()
+  await reportProgress(0, undefined, 'Opening a browser page')
+  const page = await openPage('clear-cart')
 
   try {
     // Navigate to the cart page
-    await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 })
+    await reportProgress(1, undefined, 'Loading the cart page')
+    await navigateTo(page, url)
 
     // Handle login if needed
     await throwIfNotLoggedIn(page)
 
     // Wait for the cart to load
-    await page.waitForSelector('#sc-active-cart, .sc-cart-item, .sc-empty-cart-banner', { timeout: 10000 })
+    await page.waitForSelector('#sc-active-cart, .sc-cart-item, .sc-empty-cart-banner', { timeout: SELECTOR_TIMEOUT_MS })
 
     // Find all delete buttons
     const deleteButtons = await page.$$('span[data-action="delete-active"]')
@@ -264,6 +313,8 @@ export async function clearCart() {
 
     // Click each delete button with delay
     for (let i = 0; i < deleteButtons.length; i++) {
+      throwIfCancelled()
+      await reportProgress(2 + i, 2 + deleteButtons.length, `Removing item ${i + 1} of ${deleteButtons.length}`)
       try {
         // Re-query the delete buttons as DOM changes after each deletion
         const currentDeleteButtons = await page.$$('span[data-action="delete-active"]')
@@ -281,7 +332,7 @@ export async function clearCart() {
 
         // Wait for the page to update after deletion
         if (i < deleteButtons.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 800))
+          await sleep(800)
         }
       } catch (error) {
         console.error(`[WARNING][clear-cart] Failed to remove item ${i + 1}:`, error)
@@ -297,8 +348,13 @@ export async function clearCart() {
     }
   } catch (error: any) {
     console.error('[ERROR][clear-cart] Error clearing cart:', error)
+    await captureDebugArtifacts(page, 'clear-cart', error)
+    throwIfCancelled()
+    if (error instanceof AmazonError) {
+      throw error
+    }
     throw new Error(`Failed to clear cart: ${error.message}`)
   } finally {
-    await browser.close()
+    await closePage(page)
   }
 }
\ No newline at end of file
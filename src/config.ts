@@ -1,19 +1,87 @@
-import { profileManager, AmazonCookie } from './profileManager.js'
+import { profileManager, AmazonCookie, ProfileSettings } from './profileManager.js'
+import type { ProfileSession } from './profileSession.js'
+import { getRequestContext } from './requestContext.js'
+import { serverConfig } from './serverConfig.js'
 
-export const IS_BROWSER_VISIBLE = false
+// Values loaded from the configuration file and environment variables, see serverConfig.ts
+
+export const IS_BROWSER_VISIBLE = serverConfig.browserVisible
 
 /** Use local mock files instead of live scraping */
-export const USE_MOCKS = false
+export const USE_MOCKS = serverConfig.useMocks
 
 /** Export live scraping HTML to mocks for future use */
-export const EXPORT_LIVE_SCRAPING_FOR_MOCKS = true
+export const EXPORT_LIVE_SCRAPING_FOR_MOCKS = serverConfig.exportLiveScrapingForMocks
+
+/** Directory holding the mock HTML files */
+export const MOCKS_DIR = serverConfig.mocksDir
+
+/** Save a screenshot of the CAPTCHA and verification pages */
+export const SAVE_CHALLENGE_SCREENSHOTS = serverConfig.saveChallengeScreenshots
+
+/** Directory holding the challenge screenshots */
+export const SCREENSHOTS_DIR = serverConfig.screenshotsDir
+
+/** Save a debug bundle of the page a scraping operation failed on */
+export const CAPTURE_DEBUG_ARTIFACTS = serverConfig.captureDebugArtifacts
+
+/** Directory holding the debug bundles */
+export const DEBUG_ARTIFACTS_DIR = serverConfig.debugArtifactsDir
+
+/** Retention limits of the debug bundles */
+export const DEBUG_ARTIFACTS_MAX_BUNDLES = serverConfig.debugArtifactsMaxBundles
+export const DEBUG_ARTIFACTS_MAX_AGE_DAYS = serverConfig.debugArtifactsMaxAgeDays
+
+/** Timeout of page navigations */
+export const NAVIGATION_TIMEOUT_MS = serverConfig.navigationTimeoutMs
+
+/** Timeout when waiting for the main selector of a page */
+export const SELECTOR_TIMEOUT_MS = serverConfig.selectorTimeoutMs
+
+/** Path of the Chromium executable, or "auto" to find it */
+export const CHROMIUM_PATH = serverConfig.chromiumPath
+
+/** Extra command line arguments of Chromium */
+export const BROWSER_ARGS = serverConfig.browserArgs
+
+/** Idle time after which the browser context of a profile is closed */
+export const BROWSER_IDLE_TIMEOUT_MS = serverConfig.browserIdleTimeoutMs
+
+/** Maximum number of browser pages open at once */
+export const MAX_BROWSER_PAGES = serverConfig.maxBrowserPages
+
+/** Resources the pages of the read-only tools do not load */
+export const BLOCKED_RESOURCES = serverConfig.blockedResources
+
+/** Resources blocked for specific tools, replacing the default policy */
+export const RESOURCE_BLOCKING_OVERRIDES = serverConfig.resourceBlockingOverrides
+
+/** Tools fetching their page over HTTP before falling back to the browser */
+export const HTTP_FETCH_TOOLS: readonly string[] = serverConfig.httpFetchTools
+
+/** Rate limits of the requests to Amazon, per profile and marketplace */
+export const MIN_REQUEST_INTERVAL_MS = serverConfig.minRequestIntervalMs
+export const MAX_REQUESTS_PER_MINUTE = serverConfig.maxRequestsPerMinute
+
+/** Retries of the page loads failing with a transient error */
+export const RETRY_MAX_ATTEMPTS = serverConfig.retryMaxAttempts
+export const RETRY_BASE_DELAY_MS = serverConfig.retryBaseDelayMs
+export const RETRY_MAX_DELAY_MS = serverConfig.retryMaxDelayMs
+
+/**
+ * Get the profile session of the client the current request runs for,
+ * or the default session outside of a request
+ */
+export function getProfileSession(): ProfileSession {
+  return getRequestContext()?.session ?? profileManager.defaultSession
+}
 
 /**
  * Get the current profile's Amazon cookies
  * This is now dynamic and returns cookies from the active profile
  */
 export function getAmazonCookies(): AmazonCookie[] {
-  return profileManager.getCurrentCookies()
+  return getProfileSession().getCurrentCookies()
 }
 
 /**
@@ -21,7 +89,22 @@ export function getAmazonCookies(): AmazonCookie[] {
  * Returns the domain without the leading dot (e.g., "amazon.com", "amazon.co.uk", "amazon.de")
  */
 export function getAmazonDomain(): string {
-  return profileManager.getAmazonDomain()
+  return getProfileSession().getAmazonDomain()
+}
+
+/**
+ * Get the current profile's settings (marketplace, language, currency, limits...)
+ */
+export function getProfileSettings(): ProfileSettings {
+  return getProfileSession().getCurrentSettings()
+}
+
+/**
+ * Build an Amazon URL for the current profile's marketplace and language
+ * e.g. `getAmazonUrl('/gp/cart/view.html')` returns "https://www.amazon.de/-/de/gp/cart/view.html"
+ */
+export function getAmazonUrl(pathname: string): string {
+  return `https://www.${getAmazonDomain()}/-/${getProfileSession().getAmazonLanguage()}${pathname}`
 }
 
 // Re-export profileManager for use in other modules
@@ -0,0 +1,107 @@
+import { z } from 'zod'
+import type { AmazonCookie } from './profileManager.js'
+
+/** A profile is flagged as expiring when a session-critical cookie expires within this delay */
+export const EXPIRING_SOON_THRESHOLD_DAYS = 7
+
+/** Cookies that must be present for a profile to be logged in */
+const REQUIRED_COOKIES = ['session-id', 'session-token']
+
+/** Marketplace-specific authentication cookies, e.g. `at-main`, `x-main`, `sess-at-main`, `at-acbuk` */
+const AUTH_COOKIE_PATTERN = /^(at|x|sess-at)-[a-z]+$/
+
+export type CookieStatus = 'valid' | 'session' | 'expiring' | 'expired'
+
+export type CookieHealthStatus = 'healthy' | 'expiring' | 'expired' | 'missing'
+
+const CriticalCookieInfoSchema = z.object({
+  name: z.string(),
+  status: z.enum(['valid', 'session', 'expiring', 'expired']),
+  expiresAt: z.string().nullable(),
+})
+
+export type CriticalCookieInfo = z.infer<typeof CriticalCookieInfoSchema>
+
+export const CookieHealthSchema = z.object({
+  status: z.enum(['healthy', 'expiring', 'expired', 'missing']),
+  /** Earliest expiration date of the session-critical cookies */
+  expiresAt: z.string().nullable(),
+  criticalCookies: z.array(CriticalCookieInfoSchema),
+  missingCookies: z.array(z.string()),
+})
+
+export type CookieHealth = z.infer<typeof CookieHealthSchema>
+
+/**
+ * Check whether a cookie is session-critical (needed to stay logged in)
+ */
+export function isSessionCriticalCookie(name: string): boolean {
+  return REQUIRED_COOKIES.includes(name) || AUTH_COOKIE_PATTERN.test(name)
+}
+
+function getCookieStatus(cookie: AmazonCookie, now: number): CookieStatus {
+  if (cookie.session || !cookie.expirationDate) {
+    return 'session'
+  }
+  const expiresAtMs = cookie.expirationDate * 1000
+  if (expiresAtMs <= now) {
+    return 'expired'
+  }
+  if (expiresAtMs - now <= EXPIRING_SOON_THRESHOLD_DAYS * 24 * 60 * 60 * 1000) {
+    return 'expiring'
+  }
+  return 'valid'
+}
+
+/**
+ * Inspect the expiration dates of the session-critical cookies of a profile
+ */
+export function assessCookieHealth(cookies: AmazonCookie[], now: number = Date.now()): CookieHealth {
+  const criticalCookies: CriticalCookieInfo[] = cookies
+    .filter(cookie => isSessionCriticalCookie(cookie.name))
+    .map(cookie => ({
+      name: cookie.name,
+      status: getCookieStatus(cookie, now),
+      expiresAt: cookie.expirationDate && !cookie.session ? new Date(cookie.expirationDate * 1000).toISOString() : null,
+    }))
+
+  const missingCookies = REQUIRED_COOKIES.filter(name => !criticalCookies.some(cookie => cookie.name === name))
+  if (!criticalCookies.some(cookie => AUTH_COOKIE_PATTERN.test(cookie.name))) {
+    missingCookies.push('at-main (or marketplace equivalent)')
+  }
+
+  const expirationDates = criticalCookies.map(cookie => cookie.expiresAt).filter((date): date is string => date !== null)
+  const expiresAt = expirationDates.length > 0 ? expirationDates.sort()[0] : null
+
+  let status: CookieHealthStatus = 'healthy'
+  if (missingCookies.length > 0) {
+    status = 'missing'
+  } else if (criticalCookies.some(cookie => cookie.status === 'expired')) {
+    status = 'expired'
+  } else if (criticalCookies.some(cookie => cookie.status === 'expiring')) {
+    status = 'expiring'
+  }
+
+  return {
+    status,
+    expiresAt,
+    criticalCookies,
+    missingCookies,
+  }
+}
+
+/**
+ * Get a short human-readable description of a cookie health report
+ */
+export function describeCookieHealth(health: CookieHealth): string {
+  switch (health.status) {
+    case 'healthy':
+      return health.expiresAt ? `healthy until ${health.expiresAt.slice(0, 10)}` : 'healthy'
+    case 'expiring':
+      return `expiring soon (${health.expiresAt?.slice(0, 10)})`
+    case 'expired':
+      return 'expired - re-export cookies'
+    case 'missing':
+      return `missing ${health.missingCookies.join(', ')}`
+  }
+}
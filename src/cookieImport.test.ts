@@ -0,0 +1,135 @@
+import { describe, expect, test, vi } from 'vitest'
+import { parseCookieInput, parseSetCookieHeader } from './cookieImport.js'
+
+describe('parseCookieInput', () => {
+  test('imports a browser extension JSON export', () => {
+    const input = JSON.stringify([
+      { domain: '.amazon.com', name: 'session-id', value: '123', path: '/', expirationDate: 1900000000, sameSite: 'no_restriction' },
+      { domain: 'www.amazon.com', name: 'csm-hit', value: 'tb', session: true },
+    ])
+
+    const result = parseCookieInput(input)
+
+    expect(result.format).toBe('cookie-editor-json')
+    expect(result.cookies[0]).toMatchObject({ name: 'session-id', hostOnly: false, session: false, sameSite: 'None' })
+    expect(result.cookies[1]).toMatchObject({ name: 'csm-hit', path: '/', hostOnly: true, session: true })
+    expect(result.inferredFields).toContain('path (defaulted to "/")')
+  })
+
+  test('imports a storage state and converts its expiry', () => {
+    const input = JSON.stringify({
+      cookies: [{ domain: '.amazon.de', name: 'at-acbde', value: 'Atza|x', path: '/', expires: 1900000000, sameSite: 'Lax' }],
+      origins: [],
+    })
+
+    const result = parseCookieInput(input)
+
+    expect(result.format).toBe('storage-state')
+    expect(result.cookies).toEqual([expect.objectContaining({ expirationDate: 1900000000, session: false, sameSite: 'Lax' })])
+    expect(result.inferredFields).toContain('expirationDate (from "expires")')
+  })
+
+  test('imports a Netscape cookies.txt file with its HttpOnly lines', () => {
+    const input = [
+      '# Netscape HTTP Cookie File',
+      '.amazon.com\tTRUE\t/\tTRUE\t1900000000\tsession-id\t123',
+      '#HttpOnly_.amazon.com\tTRUE\t/\tTRUE\t0\tx-main\tabc',
+    ].join('\n')
+
+    const result = parseCookieInput(input)
+
+    expect(result.format).toBe('netscape-cookies-txt')
+    expect(result.cookies).toEqual([
+      expect.objectContaining({ name: 'session-id', expirationDate: 1900000000, hostOnly: false, httpOnly: false, secure: true }),
+      expect.objectContaining({ name: 'x-main', expirationDate: undefined, httpOnly: true, session: true }),
+    ])
+  })
+
+  test('imports the Amazon cookies of a HAR file, later entries winning', () => {
+    const input = JSON.stringify({
+      log: {
+        entries: [
+          { request: { url: 'https://www.amazon.com/', cookies: [{ name: 'session-token', value: 'old' }] }, response: { cookies: [] } },
+          { request: { url: 'https://tracker.example.com/', cookies: [{ name: 'tracker', value: 'x' }] }, response: { cookies: [] } },
+          { request: { url: 'https://www.amazon.com/cart', cookies: [] }, response: { cookies: [{ name: 'session-token', value: 'new' }] } },
+        ],
+      },
+    })
+
+    const result = parseCookieInput(input)
+
+    expect(result.format).toBe('har')
+    expect(result.cookies).toEqual([expect.objectContaining({ domain: 'www.amazon.com', name: 'session-token', value: 'new', secure: true })])
+    expect(result.inferredFields).toContain('domain (from request URL)')
+  })
+
+  test('keeps the Set-Cookie of a HAR file over the cookie sent in the requests', () => {
+    const input = JSON.stringify({
+      log: {
+        entries: [
+          {
+            request: { url: 'https://www.amazon.com/', cookies: [{ name: 'session-id', value: 'old' }] },
+            response: {
+              cookies: [{ name: 'session-id', value: 'new', domain: '.amazon.com', path: '/', expires: '2030-01-01T00:00:00.000Z', secure: true }],
+            },
+          },
+          { request: { url: 'https://www.amazon.com/cart', cookies: [{ name: 'session-id', value: 'new' }] }, response: { cookies: [] } },
+        ],
+      },
+    })
+
+    const { cookies } = parseCookieInput(input)
+
+    expect(cookies).toEqual([
+      expect.objectContaining({ domain: '.amazon.com', name: 'session-id', value: 'new', hostOnly: false, session: false }),
+    ])
+  })
+
+  test('imports a raw Cookie header for the given domain', () => {
+    const result = parseCookieInput('Cookie: session-id=123; token=a=b', 'https://www.amazon.co.uk/')
+
+    expect(result.format).toBe('cookie-header')
+    expect(result.cookies).toEqual([
+      expect.objectContaining({ domain: '.amazon.co.uk', name: 'session-id', value: '123' }),
+      expect.objectContaining({ domain: '.amazon.co.uk', name: 'token', value: 'a=b' }),
+    ])
+  })
+
+  test('rejects an empty input, unknown JSON and a Cookie header without domain', () => {
+    expect(() => parseCookieInput('  ')).toThrow('Cookies input is empty')
+    expect(() => parseCookieInput('{"foo": 1}')).toThrow('Unrecognized JSON format')
+    expect(() => parseCookieInput('{oops')).toThrow('could not be parsed')
+    expect(() => parseCookieInput('session-id=123')).toThrow('A domain')
+  })
+})
+
+describe('parseSetCookieHeader', () => {
+  test('reads the attributes of a Set-Cookie header, Max-Age winning over Expires', () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    const header = 'session-token=a=b; Domain=amazon.com; Path=/; Expires=Fri, 01 Jan 2027 00:00:00 GMT; Max-Age=3600; Secure; HttpOnly; SameSite=Lax'
+
+    expect(parseSetCookieHeader(header, 'https://www.amazon.com/s?k=tea')).toEqual({
+      domain: '.amazon.com',
+      name: 'session-token',
+      value: 'a=b',
+      path: '/',
+      expirationDate: new Date('2026-01-01T01:00:00Z').getTime() / 1000,
+      hostOnly: false,
+      httpOnly: true,
+      secure: true,
+      session: false,
+      sameSite: 'Lax',
+    })
+    vi.useRealTimers()
+  })
+
+  test('keeps a cookie without Domain on the host of the URL, as a session cookie', () => {
+    expect(parseSetCookieHeader('csm-hit=tb:s', 'https://www.amazon.de/dp/B000000000')).toMatchObject({
+      domain: 'www.amazon.de',
+      path: '/',
+      hostOnly: true,
+      session: true,
+    })
+    expect(parseSetCookieHeader('=nameless; Path=/', 'https://www.amazon.de/')).toBeNull()
+  })
+})
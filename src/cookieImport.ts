@@ -0,0 +1,340 @@
+import type { AmazonCookie } from './profileManager.js'
+
+export const COOKIE_IMPORT_FORMATS = ['cookie-editor-json', 'netscape-cookies-txt', 'har', 'storage-state', 'cookie-header'] as const
+
+export type CookieImportFormat = (typeof COOKIE_IMPORT_FORMATS)[number]
+
+export interface CookieImportResult {
+  format: CookieImportFormat
+  cookies: AmazonCookie[]
+  /** Fields that were not present in the input and had to be inferred, e.g. `path (defaulted to "/")` */
+  inferredFields: string[]
+}
+
+/**
+ * Collects the inferred fields while importing cookies
+ */
+class InferenceLog {
+  private fields = new Set<string>()
+
+  add(field: string): void {
+    this.fields.add(field)
+  }
+
+  toArray(): string[] {
+    return [...this.fields]
+  }
+}
+
+/**
+ * Detect the format of a cookies export and normalize it into Amazon cookies.
+ * Supported formats: browser extension JSON array (Cookie-Editor), Netscape cookies.txt, HAR,
+ * Puppeteer/Playwright storage state JSON and a raw `Cookie:` header string (requires a domain).
+ */
+export function parseCookieInput(input: string, domain?: string): CookieImportResult {
+  const trimmed = input.trim()
+  if (!trimmed) {
+    throw new Error('Cookies input is empty')
+  }
+
+  const inferred = new InferenceLog()
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let json: any
+    try {
+      json = JSON.parse(trimmed)
+    } catch (error: any) {
+      throw new Error(`Input looks like JSON but could not be parsed: ${error.message}`)
+    }
+
+    if (Array.isArray(json)) {
+      const cookies = json.map(cookie => fromJsonCookie(cookie, inferred))
+      return { format: 'cookie-editor-json', cookies, inferredFields: inferred.toArray() }
+    }
+    if (Array.isArray(json?.log?.entries)) {
+      return { format: 'har', cookies: parseHar(json, inferred), inferredFields: inferred.toArray() }
+    }
+    if (Array.isArray(json?.cookies)) {
+      const cookies = json.cookies.map((cookie: any) => fromJsonCookie(cookie, inferred))
+      return { format: 'storage-state', cookies, inferredFields: inferred.toArray() }
+    }
+    throw new Error('Unrecognized JSON format. Expected a cookies array, a HAR file or a storage state object with a "cookies" array')
+  }
+
+  if (isNetscapeCookiesTxt(trimmed)) {
+    return { format: 'netscape-cookies-txt', cookies: parseNetscape(trimmed, inferred), inferredFields: inferred.toArray() }
+  }
+
+  if (!domain) {
+    throw new Error('A domain (e.g. "amazon.com") is required to import a raw Cookie header')
+  }
+  return { format: 'cookie-header', cookies: parseCookieHeader(trimmed, domain, inferred), inferredFields: inferred.toArray() }
+}
+
+function normalizeSameSite(value: unknown): AmazonCookie['sameSite'] {
+  if (typeof value !== 'string') {
+    return undefined
+  }
+  switch (value.toLowerCase()) {
+    case 'strict':
+      return 'Strict'
+    case 'lax':
+      return 'Lax'
+    case 'none':
+    case 'no_restriction':
+      return 'None'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Normalize a JSON cookie from a browser extension export or a Puppeteer/Playwright storage state
+ */
+function fromJsonCookie(cookie: any, inferred: InferenceLog): AmazonCookie {
+  let expirationDate: number | undefined = cookie.expirationDate
+  if (expirationDate === undefined && typeof cookie.expires === 'number' && cookie.expires > 0) {
+    // Puppeteer and Playwright use `expires` in seconds, -1 for session cookies
+    expirationDate = cookie.expires
+    inferred.add('expirationDate (from "expires")')
+  }
+
+  let path: string = cookie.path
+  if (!path) {
+    path = '/'
+    inferred.add('path (defaulted to "/")')
+  }
+
+  const session = cookie.session ?? expirationDate === undefined
+  if (cookie.session === undefined) {
+    inferred.add('session (from expiration date)')
+  }
+
+  return {
+    domain: cookie.domain,
+    name: cookie.name,
+    value: cookie.value,
+    path,
+    expirationDate,
+    hostOnly: cookie.hostOnly ?? (typeof cookie.domain === 'string' ? !cookie.domain.startsWith('.') : undefined),
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    session,
+    sameSite: normalizeSameSite(cookie.sameSite),
+  }
+}
+
+function isNetscapeCookiesTxt(input: string): boolean {
+  if (input.startsWith('# Netscape HTTP Cookie File') || input.startsWith('# HTTP Cookie File')) {
+    return true
+  }
+  return input
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !(line.startsWith('#') && !line.startsWith('#HttpOnly_')))
+    .every(line => line.split('\t').length === 7)
+}
+
+/**
+ * Parse a Netscape cookies.txt file (domain, includeSubdomains, path, secure, expires, name, value)
+ */
+function parseNetscape(input: string, inferred: InferenceLog): AmazonCookie[] {
+  const cookies: AmazonCookie[] = []
+
+  for (const rawLine of input.split(/\r?\n/)) {
+    let line = rawLine.trim()
+    let httpOnly = false
+    if (line.startsWith('#HttpOnly_')) {
+      httpOnly = true
+      line = line.substring('#HttpOnly_'.length)
+    } else if (!line || line.startsWith('#')) {
+      continue
+    }
+
+    const fields = line.split('\t')
+    if (fields.length !== 7) {
+      throw new Error(`Invalid cookies.txt line (expected 7 tab-separated fields): ${line}`)
+    }
+    const [domain, includeSubdomains, path, secure, expires, name, value] = fields
+    const expirationDate = Number(expires) > 0 ? Number(expires) : undefined
+
+    cookies.push({
+      domain,
+      name,
+      value,
+      path: path || '/',
+      expirationDate,
+      hostOnly: includeSubdomains.toUpperCase() !== 'TRUE',
+      httpOnly,
+      secure: secure.toUpperCase() === 'TRUE',
+      session: expirationDate === undefined,
+    })
+  }
+
+  inferred.add('sameSite (not stored in cookies.txt)')
+  return cookies
+}
+
+/**
+ * Extract the Amazon cookies sent and received in a HAR file, one per name and path.
+ * A Set-Cookie with its domain wins over the cookies sent in the requests, otherwise later entries win over earlier ones.
+ */
+function parseHar(har: any, inferred: InferenceLog): AmazonCookie[] {
+  const cookiesByKey = new Map<string, { cookie: AmazonCookie; explicitDomain: boolean }>()
+
+  for (const entry of har.log.entries) {
+    let hostname: string
+    try {
+      hostname = new URL(entry.request?.url).hostname
+    } catch {
+      continue
+    }
+    if (!hostname.includes('amazon')) {
+      continue
+    }
+
+    const harCookies = [...(entry.request?.cookies ?? []), ...(entry.response?.cookies ?? [])]
+    for (const harCookie of harCookies) {
+      if (!harCookie.name) {
+        continue
+      }
+
+      let domain: string = harCookie.domain
+      if (!domain) {
+        domain = hostname
+        inferred.add('domain (from request URL)')
+      }
+      let path: string = harCookie.path
+      if (!path) {
+        path = '/'
+        inferred.add('path (defaulted to "/")')
+      }
+      let expirationDate: number | undefined
+      if (harCookie.expires) {
+        expirationDate = new Date(harCookie.expires).getTime() / 1000
+      } else {
+        inferred.add('expirationDate (missing, imported as session cookie)')
+      }
+      if (harCookie.secure === undefined) {
+        inferred.add('secure (from request URL scheme)')
+      }
+
+      const cookie: AmazonCookie = {
+        domain,
+        name: harCookie.name,
+        value: harCookie.value,
+        path,
+        expirationDate,
+        hostOnly: !domain.startsWith('.'),
+        httpOnly: harCookie.httpOnly,
+        secure: harCookie.secure ?? entry.request.url.startsWith('https:'),
+        session: expirationDate === undefined,
+        sameSite: normalizeSameSite(harCookie.sameSite),
+      }
+      // The request cookies have no domain, keeping them next to the Set-Cookie of the same cookie
+      // would send a stale host-only copy along with the rotated one
+      const key = `${cookie.name}|${cookie.path}`
+      const explicitDomain = Boolean(harCookie.domain)
+      if (explicitDomain || !cookiesByKey.get(key)?.explicitDomain) {
+        cookiesByKey.set(key, { cookie, explicitDomain })
+      }
+    }
+  }
+
+  return [...cookiesByKey.values()].map(({ cookie }) => cookie)
+}
+
+/**
+ * Parse a raw `Cookie:` request header (`name=value; name2=value2`) for the given domain
+ */
+function parseCookieHeader(input: string, domain: string, inferred: InferenceLog): AmazonCookie[] {
+  const header = input.replace(/^cookie:\s*/i, '')
+  const cookieDomain = `.${domain.replace(/^(https?:\/\/)?(www)?\.?/, '').replace(/\/.*$/, '')}`
+
+  const cookies = header
+    .split(';')
+    .map(part => part.trim())
+    .filter(part => part.includes('='))
+    .map(part => {
+      const separatorIndex = part.indexOf('=')
+      return {
+        domain: cookieDomain,
+        name: part.substring(0, separatorIndex).trim(),
+        value: part.substring(separatorIndex + 1).trim(),
+        path: '/',
+        hostOnly: false,
+        secure: true,
+        session: true,
+      }
+    })
+
+  inferred.add(`domain (set to "${cookieDomain}")`)
+  inferred.add('path (defaulted to "/")')
+  inferred.add('secure (defaulted to true)')
+  inferred.add('expirationDate (missing, imported as session cookies)')
+  return cookies
+}
+
+/**
+ * Parse a `Set-Cookie` response header received from a URL, null when it has no cookie name
+ */
+export function parseSetCookieHeader(header: string, url: string): AmazonCookie | null {
+  const [pair, ...attributes] = header.split(';')
+  const separatorIndex = pair.indexOf('=')
+  const name = pair.substring(0, separatorIndex).trim()
+  if (separatorIndex === -1 || !name) {
+    return null
+  }
+
+  const cookie: AmazonCookie = {
+    domain: new URL(url).hostname,
+    name,
+    value: pair.substring(separatorIndex + 1).trim(),
+    path: '/',
+    hostOnly: true,
+    httpOnly: false,
+    secure: false,
+    session: true,
+  }
+  let maxAge: number | undefined
+  for (const attribute of attributes) {
+    const [attributeName, ...valueParts] = attribute.split('=')
+    const value = valueParts.join('=').trim()
+    switch (attributeName.trim().toLowerCase()) {
+      case 'domain':
+        if (value) {
+          cookie.domain = `.${value.replace(/^\./, '')}`
+          cookie.hostOnly = false
+        }
+        break
+      case 'path':
+        cookie.path = value.startsWith('/') ? value : '/'
+        break
+      case 'expires':
+        if (!Number.isNaN(Date.parse(value))) {
+          cookie.expirationDate = Date.parse(value) / 1000
+        }
+        break
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) {
+          maxAge = Number(value)
+        }
+        break
+      case 'secure':
+        cookie.secure = true
+        break
+      case 'httponly':
+        cookie.httpOnly = true
+        break
+      case 'samesite':
+        cookie.sameSite = normalizeSameSite(value)
+        break
+    }
+  }
+
+  // Max-Age wins over Expires
+  if (maxAge !== undefined) {
+    cookie.expirationDate = Date.now() / 1000 + maxAge
+  }
+  cookie.session = cookie.expirationDate === undefined
+  return cookie
+}
@@ -0,0 +1,253 @@
+import fs from 'fs'
+import path from 'path'
+import puppeteer from 'puppeteer'
+import { z } from 'zod'
+import { CAPTURE_DEBUG_ARTIFACTS, DEBUG_ARTIFACTS_DIR, DEBUG_ARTIFACTS_MAX_AGE_DAYS, DEBUG_ARTIFACTS_MAX_BUNDLES } from './config.js'
+import { AmazonError } from './errors.js'
+import { getRequestContext } from './requestContext.js'
+import { getTimestamp } from './utils.js'
+
+// ##################################
+// Debug Bundle Types
+// ##################################
+
+/** Maximum number of console messages and failed requests kept per page */
+const MAX_RECORDED_ENTRIES = 200
+
+/** File describing a bundle, next to the screenshot and the HTML of the page */
+const BUNDLE_DETAILS_FILE = 'details.json'
+
+const ConsoleMessageSchema = z.object({
+  type: z.string(),
+  text: z.string(),
+  location: z.string().nullable(),
+})
+
+const FailedRequestSchema = z.object({
+  url: z.string(),
+  method: z.string(),
+  resourceType: z.string(),
+  /** HTTP status of the response, null when the request failed before a response */
+  status: z.number().nullable(),
+  failure: z.string().nullable(),
+})
+
+const DebugBundleDetailsSchema = z.object({
+  tool: z.string(),
+  capturedAt: z.string(),
+  url: z.string(),
+  error: z.object({
+    name: z.string(),
+    message: z.string(),
+    code: z.string().nullable().describe('The error code, for the typed scraping errors'),
+  }),
+  consoleMessages: z.array(ConsoleMessageSchema),
+  failedRequests: z.array(FailedRequestSchema),
+})
+
+export const DebugBundleSummarySchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  tool: z.string(),
+  capturedAt: z.string(),
+  url: z.string(),
+  error: DebugBundleDetailsSchema.shape.error,
+  consoleMessages: z.number(),
+  failedRequests: z.number(),
+  files: z.array(z.string()),
+})
+
+type ConsoleMessage = z.infer<typeof ConsoleMessageSchema>
+type FailedRequest = z.infer<typeof FailedRequestSchema>
+type DebugBundleDetails = z.infer<typeof DebugBundleDetailsSchema>
+export type DebugBundleSummary = z.infer<typeof DebugBundleSummarySchema>
+
+// ##################################
+// Page Activity Recording
+// ##################################
+
+/** Console messages and failed requests of each open page, written to the bundle when the operation fails */
+const pageActivity = new WeakMap<puppeteer.Page, { consoleMessages: ConsoleMessage[]; failedRequests: FailedRequest[] }>()
+
+/**
+ * Keep the last entries of a list, dropping the oldest
+ */
+function pushCapped<T>(entries: T[], entry: T): void {
+  entries.push(entry)
+  if (entries.length > MAX_RECORDED_ENTRIES) {
+    entries.shift()
+  }
+}
+
+/**
+ * Record the browser console messages and failed network requests of a page, for the debug bundle of a failure
+ */
+export function recordPageActivity(page: puppeteer.Page): void {
+  if (!CAPTURE_DEBUG_ARTIFACTS) {
+    return
+  }
+  const activity = { consoleMessages: [] as ConsoleMessage[], failedRequests: [] as FailedRequest[] }
+  pageActivity.set(page, activity)
+
+  page.on('console', message => {
+    const { url, lineNumber } = message.location()
+    pushCapped(activity.consoleMessages, {
+      type: message.type(),
+      text: message.text(),
+      location: url ? `${url}:${lineNumber ?? 0}` : null,
+    })
+  })
+  page.on('requestfailed', request => {
+    const failure = request.failure()?.errorText ?? null
+    // Requests blocked by the resource policy are not failures of the page
+    if (failure === 'net::ERR_BLOCKED_BY_CLIENT') {
+      return
+    }
+    pushCapped(activity.failedRequests, {
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      status: null,
+      failure,
+    })
+  })
+  page.on('response', response => {
+    if (response.status() < 400) {
+      return
+    }
+    const request = response.request()
+    pushCapped(activity.failedRequests, {
+      url: response.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      status: response.status(),
+      failure: response.statusText() || null,
+    })
+  })
+}
+
+// ##################################
+// Bundle Capture
+// ##################################
+
+/**
+ * Save a debug bundle of the page an operation failed on: a full-page screenshot, the HTML, the URL,
+ * the browser console messages and the failed network requests. Never throws, a failed capture is only logged.
+ *
+ * @returns the directory of the bundle, if captured
+ */
+export async function captureDebugArtifacts(page: puppeteer.Page, tool: string, error: unknown): Promise<string | undefined> {
+  // Nothing to learn from a page closed because the client cancelled the request
+  if (!CAPTURE_DEBUG_ARTIFACTS || page.isClosed() || getRequestContext()?.signal?.aborted) {
+    return undefined
+  }
+
+  const bundleDir = path.join(DEBUG_ARTIFACTS_DIR, `${getTimestamp()}_${tool}`)
+  try {
+    // The pages hold the names, addresses and orders of the account, readable by the current user only like the profiles
+    fs.mkdirSync(bundleDir, { recursive: true, mode: 0o700 })
+
+    const activity = pageActivity.get(page)
+    const details: DebugBundleDetails = {
+      tool,
+      capturedAt: new Date().toISOString(),
+      url: page.url(),
+      error: {
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        code: error instanceof AmazonError ? error.code : null,
+      },
+      consoleMessages: activity?.consoleMessages ?? [],
+      failedRequests: activity?.failedRequests ?? [],
+    }
+    fs.writeFileSync(path.join(bundleDir, BUNDLE_DETAILS_FILE), JSON.stringify(details, null, 2), { mode: 0o600 })
+
+    // The details are saved first, the page may not be able to render anymore
+    try {
+      fs.writeFileSync(path.join(bundleDir, 'page.html'), await page.content(), { mode: 0o600 })
+      const screenshotPath = path.join(bundleDir, 'screenshot.png') as `${string}.png`
+      await page.screenshot({ path: screenshotPath, fullPage: true })
+      fs.chmodSync(screenshotPath, 0o600)
+    } catch (captureError: any) {
+      console.error(`[WARN][${tool}] Failed to capture the page in the debug bundle: ${captureError.message}`)
+    }
+
+    console.error(`[INFO][${tool}] Saved the debug bundle of the failure to ${bundleDir}`)
+    pruneDebugArtifacts()
+    return bundleDir
+  } catch (captureError: any) {
+    console.error(`[WARN][${tool}] Failed to save the debug bundle: ${captureError.message}`)
+    return undefined
+  }
+}
+
+/**
+ * Delete the bundles older than `debugArtifactsMaxAgeDays`, and the oldest ones beyond `debugArtifactsMaxBundles`
+ */
+export function pruneDebugArtifacts(): void {
+  const maxAgeMs = DEBUG_ARTIFACTS_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  listBundleDirs().forEach(({ bundleDir, mtimeMs }, index) => {
+    const expired = Date.now() - mtimeMs > maxAgeMs
+    if (index >= DEBUG_ARTIFACTS_MAX_BUNDLES || expired) {
+      fs.rmSync(bundleDir, { recursive: true, force: true })
+    }
+  })
+}
+
+// ##################################
+// Bundle Listing
+// ##################################
+
+/**
+ * Get the directories of the bundles with their modification time, the latest first
+ */
+function listBundleDirs(): { bundleDir: string; mtimeMs: number }[] {
+  if (!fs.existsSync(DEBUG_ARTIFACTS_DIR)) {
+    return []
+  }
+  return fs
+    .readdirSync(DEBUG_ARTIFACTS_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && fs.existsSync(path.join(DEBUG_ARTIFACTS_DIR, entry.name, BUNDLE_DETAILS_FILE)))
+    .flatMap(entry => {
+      const bundleDir = path.join(DEBUG_ARTIFACTS_DIR, entry.name)
+      // Stat once rather than in the comparator, skipping a bundle deleted meanwhile (e.g. by another server pruning)
+      const stats = fs.statSync(bundleDir, { throwIfNoEntry: false })
+      return stats ? [{ bundleDir, mtimeMs: stats.mtimeMs }] : []
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs)
+}
+
+/**
+ * List the saved debug bundles, the latest first
+ */
+export function listDebugArtifacts(options: { tool?: string; limit?: number } = {}): DebugBundleSummary[] {
+  const summaries: DebugBundleSummary[] = []
+  for (const { bundleDir } of listBundleDirs()) {
+    let details: DebugBundleDetails
+    try {
+      details = DebugBundleDetailsSchema.parse(JSON.parse(fs.readFileSync(path.join(bundleDir, BUNDLE_DETAILS_FILE), 'utf-8')))
+    } catch (error: any) {
+      console.error(`[WARN] Skipping the unreadable debug bundle ${bundleDir}: ${error.message}`)
+      continue
+    }
+    if (options.tool && details.tool !== options.tool) {
+      continue
+    }
+
+    summaries.push({
+      id: path.basename(bundleDir),
+      path: bundleDir,
+      tool: details.tool,
+      capturedAt: details.capturedAt,
+      url: details.url,
+      error: details.error,
+      consoleMessages: details.consoleMessages.length,
+      failedRequests: details.failedRequests.length,
+      files: fs.readdirSync(bundleDir).sort(),
+    })
+    if (options.limit !== undefined && summaries.length >= options.limit) {
+      break
+    }
+  }
+  return summaries
+}
@@ -0,0 +1,194 @@
+/** Stable codes of the errors raised while scraping Amazon, for clients to react without parsing messages */
+export const AMAZON_ERROR_CODES = [
+  'NOT_LOGGED_IN',
+  'CAPTCHA_CHALLENGE',
+  'MFA_REQUIRED',
+  'AMAZON_ERROR_PAGE',
+  'REGION_REDIRECT',
+  'SELECTOR_MISSING',
+  'NAVIGATION_TIMEOUT',
+  'PRODUCT_UNAVAILABLE',
+  'INVALID_INPUT',
+] as const
+
+export type AmazonErrorCode = (typeof AMAZON_ERROR_CODES)[number]
+
+/**
+ * Machine-readable description of an error, returned to the MCP client in the failed tool result
+ */
+export interface AmazonErrorPayload {
+  type: 'AMAZON_ERROR'
+  code: AmazonErrorCode
+  message: string
+  /** Whether calling the tool again unchanged may succeed */
+  retryable: boolean
+  suggestedAction: string
+  /** Screenshot of the challenge page, when `saveChallengeScreenshots` is enabled */
+  screenshotPath?: string
+}
+
+/**
+ * Base class of the errors raised while scraping Amazon
+ */
+export class AmazonError extends Error {
+  readonly code: AmazonErrorCode
+  readonly retryable: boolean
+  readonly suggestedAction: string
+  readonly screenshotPath?: string
+
+  constructor(message: string, code: AmazonErrorCode, retryable: boolean, suggestedAction: string, screenshotPath?: string) {
+    super(message)
+    this.name = 'AmazonError'
+    this.code = code
+    this.retryable = retryable
+    this.suggestedAction = suggestedAction
+    this.screenshotPath = screenshotPath
+  }
+
+  toPayload(): AmazonErrorPayload {
+    return {
+      type: 'AMAZON_ERROR',
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      suggestedAction: this.suggestedAction,
+      ...(this.screenshotPath ? { screenshotPath: this.screenshotPath } : {}),
+    }
+  }
+}
+
+/**
+ * Amazon served the sign-in page: the cookies of the profile are missing or expired
+ */
+export class NotLoggedInError extends AmazonError {
+  constructor(message = 'You need to be logged in to access this feature. Please log in to Amazon first and then try again.') {
+    super(
+      message,
+      'NOT_LOGGED_IN',
+      false,
+      'Log in to Amazon in a browser, export the cookies and update the profile with save-profile, then check it with validate-profile.'
+    )
+    this.name = 'NotLoggedInError'
+  }
+}
+
+/**
+ * Amazon served a CAPTCHA instead of the requested page, usually after too many automated requests
+ */
+export class CaptchaChallengeError extends AmazonError {
+  constructor(url: string, screenshotPath?: string) {
+    super(
+      `Amazon asked to solve a CAPTCHA when loading ${url}.`,
+      'CAPTCHA_CHALLENGE',
+      false,
+      'Wait a few minutes before trying again. If it persists, open Amazon in a browser with this account and solve the CAPTCHA.',
+      screenshotPath
+    )
+    this.name = 'CaptchaChallengeError'
+  }
+}
+
+/**
+ * Amazon asked for a one-time code or another verification of the account before showing the page
+ */
+export class MfaRequiredError extends AmazonError {
+  constructor(url: string, screenshotPath?: string) {
+    super(
+      `Amazon asked to verify the account with a one-time code when loading ${url}.`,
+      'MFA_REQUIRED',
+      false,
+      'Log in to Amazon in a browser and complete the verification, then export the cookies again and update the profile with save-profile.',
+      screenshotPath
+    )
+    this.name = 'MfaRequiredError'
+  }
+}
+
+/**
+ * Amazon served its "Sorry! Something went wrong!" page, usually a temporary outage or throttling
+ */
+export class AmazonErrorPageError extends AmazonError {
+  constructor(url: string) {
+    super(
+      `Amazon answered with an error page when loading ${url}.`,
+      'AMAZON_ERROR_PAGE',
+      true,
+      'Try again in a few minutes. If it persists, check that the page loads in a browser.'
+    )
+    this.name = 'AmazonErrorPageError'
+  }
+}
+
+/**
+ * Amazon redirected to another marketplace than the one of the profile, e.g. from amazon.de to amazon.com
+ */
+export class RegionRedirectError extends AmazonError {
+  readonly redirectedUrl: string
+
+  constructor(url: string, redirectedUrl: string) {
+    super(
+      `Amazon redirected ${url} to another marketplace: ${redirectedUrl}.`,
+      'REGION_REDIRECT',
+      false,
+      'Set the marketplace of the account with configure-profile, or save cookies exported from the marketplace of the profile.'
+    )
+    this.name = 'RegionRedirectError'
+    this.redirectedUrl = redirectedUrl
+  }
+}
+
+/**
+ * An element the scraper relies on is not on the page, e.g. it did not finish loading or Amazon changed its layout
+ */
+export class SelectorMissingError extends AmazonError {
+  readonly selector: string
+
+  constructor(
+    message: string,
+    selector: string,
+    suggestedAction = 'Try again. If it keeps failing, the Amazon page layout may have changed.',
+    retryable = true
+  ) {
+    super(message, 'SELECTOR_MISSING', retryable, suggestedAction)
+    this.name = 'SelectorMissingError'
+    this.selector = selector
+  }
+}
+
+/**
+ * An Amazon page did not finish loading in time
+ */
+export class NavigationTimeoutError extends AmazonError {
+  constructor(url: string, timeoutMs: number) {
+    super(
+      `Loading ${url} timed out after ${timeoutMs} ms.`,
+      'NAVIGATION_TIMEOUT',
+      true,
+      'Try again. If it keeps timing out, check the network connection or increase AMAZON_MCP_NAVIGATION_TIMEOUT_MS.'
+    )
+    this.name = 'NavigationTimeoutError'
+  }
+}
+
+/**
+ * The product does not exist, or cannot be bought from this marketplace
+ */
+export class ProductUnavailableError extends AmazonError {
+  readonly asin: string
+
+  constructor(message: string, asin: string) {
+    super(message, 'PRODUCT_UNAVAILABLE', false, 'Check the ASIN, or look for an alternative with search-products.')
+    this.name = 'ProductUnavailableError'
+    this.asin = asin
+  }
+}
+
+/**
+ * A tool argument is invalid
+ */
+export class InvalidInputError extends AmazonError {
+  constructor(message: string) {
+    super(message, 'INVALID_INPUT', false, 'Fix the argument and call the tool again.')
+    this.name = 'InvalidInputError'
+  }
+}
@@ -0,0 +1,156 @@
+import * as cheerio from 'cheerio'
+import fs from 'fs'
+import path from 'path'
+import { getBrowserFingerprint } from './browserFingerprint.js'
+import { browserPool } from './browserPool.js'
+import {
+  EXPORT_LIVE_SCRAPING_FOR_MOCKS,
+  HTTP_FETCH_TOOLS,
+  MOCKS_DIR,
+  NAVIGATION_TIMEOUT_MS,
+  getAmazonDomain,
+  getProfileSession,
+  getProfileSettings,
+  profileManager,
+} from './config.js'
+import { parseSetCookieHeader } from './cookieImport.js'
+import type { AmazonCookie } from './profileManager.js'
+import { rateLimiter } from './rateLimiter.js'
+import { getRequestContext } from './requestContext.js'
+import type { FetchableTool } from './serverConfig.js'
+import { getProfileCookies, getRateLimitKey, getTimestamp, throwIfCancelled } from './utils.js'
+
+/** User agent of the HTTP requests when the profile does not set one: there is no browser to ask for its own */
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
+
+/** Number of times each profile was changed, to tell whether its cookies were replaced during a fetch */
+const profileChanges = new Map<string, number>()
+profileManager.onProfileChanged(profile => profileChanges.set(profile, (profileChanges.get(profile) ?? 0) + 1))
+
+export interface FetchedPage {
+  /** HTML of the page, null when it must be loaded in the browser */
+  html: string | null
+  /** Whether the HTTP request took a slot in the rate limits, which the browser navigation to the same page reuses */
+  rateLimited: boolean
+}
+
+/**
+ * Serialize the cookies sent to a URL into a Cookie header, like a browser would: matching domain and path, not expired
+ */
+export function toCookieHeader(cookies: AmazonCookie[], url: string): string {
+  const { hostname, pathname } = new URL(url)
+  const now = Date.now() / 1000
+  return cookies
+    .filter(cookie => {
+      const domain = cookie.domain.replace(/^\./, '')
+      const domainMatches = hostname === domain || (!cookie.hostOnly && hostname.endsWith(`.${domain}`))
+      const expired = cookie.expirationDate !== undefined && cookie.expirationDate < now
+      return domainMatches && pathname.startsWith(cookie.path || '/') && !expired
+    })
+    .map(cookie => `${cookie.name}=${cookie.value}`)
+    .join('; ')
+}
+
+/**
+ * Load the page of a tool with a plain HTTP request carrying the cookies and the browser headers of the current profile,
+ * which is much faster than the browser for the pages rendered on the server
+ *
+ * @returns the HTML, or null when the page must be loaded in the browser: the HTTP fetch is disabled for the tool,
+ * the profile goes through a proxy, the request failed or the HTML does not hold `requiredSelector`
+ * (e.g. Amazon answered with a CAPTCHA or the sign-in page)
+ */
+export async function fetchPageHtml(
+  tool: FetchableTool,
+  url: string,
+  options: { requiredSelector: string; mockName: string }
+): Promise<FetchedPage> {
+  if (!HTTP_FETCH_TOOLS.includes(tool)) {
+    return { html: null, rateLimited: false }
+  }
+
+  const fingerprint = getBrowserFingerprint(getProfileSettings(), getAmazonDomain())
+  // Node's fetch cannot go through the proxy, the request must not leave from another IP address
+  if (fingerprint.proxy) {
+    console.error(`[INFO][${tool}] The profile uses a proxy, loading the page in the browser`)
+    return { html: null, rateLimited: false }
+  }
+
+  const requestSignal = getRequestContext()?.signal
+  const profileName = getProfileSession().getCurrentProfile()
+  await rateLimiter.acquire(getRateLimitKey(profileName, url), requestSignal)
+  const profileChangesAtStart = profileName ? profileChanges.get(profileName) : undefined
+
+  const startedAt = Date.now()
+  const timeoutSignal = AbortSignal.timeout(NAVIGATION_TIMEOUT_MS)
+  let html: string
+  try {
+    // Redirects are followed, and gzip, deflate and brotli bodies decompressed, by fetch
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': fingerprint.userAgent ?? DEFAULT_USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+        'Accept-Language': fingerprint.acceptLanguage,
+        'Accept-Encoding': 'gzip, deflate, br',
+        Cookie: toCookieHeader(getProfileCookies(), url),
+        'Upgrade-Insecure-Requests': '1',
+        'Sec-Fetch-Dest': 'document',
+        'Sec-Fetch-Mode': 'navigate',
+        'Sec-Fetch-Site': 'none',
+        'Sec-Fetch-User': '?1',
+      },
+      redirect: 'follow',
+      signal: requestSignal ? AbortSignal.any([requestSignal, timeoutSignal]) : timeoutSignal,
+    })
+    // The cookies of an account that replaced the profile cookies during the request must not be mixed with the new ones
+    if (profileName && profileChanges.get(profileName) === profileChangesAtStart) {
+      await saveRotatedCookies(tool, profileName, response)
+    }
+    if (!response.ok) {
+      console.error(`[WARN][${tool}] Fetching ${url} over HTTP failed with status ${response.status}, loading the page in the browser`)
+      return { html: null, rateLimited: true }
+    }
+    html = await response.text()
+  } catch (error: any) {
+    throwIfCancelled()
+    console.error(`[WARN][${tool}] Fetching ${url} over HTTP failed (${error.message}), loading the page in the browser`)
+    return { html: null, rateLimited: true }
+  }
+
+  if (cheerio.load(html)(options.requiredSelector).length === 0) {
+    console.error(`[WARN][${tool}] The page fetched over HTTP has no ${options.requiredSelector}, loading the page in the browser`)
+    return { html: null, rateLimited: true }
+  }
+  console.error(`[INFO][${tool}] Fetched ${url} over HTTP in ${Date.now() - startedAt} ms`)
+
+  if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
+    const mockPath = path.join(MOCKS_DIR, `${options.mockName}_${getTimestamp()}.html`)
+    fs.writeFileSync(mockPath, html)
+    console.error(`[INFO][${tool}] Exported fetched page HTML to ${mockPath}`)
+  }
+  return { html, rateLimited: true }
+}
+
+/**
+ * Save the cookies Amazon rotated in the response to the profile and to its warm browser context, like `closePage` does
+ * for the browser. Only the Set-Cookie headers of the last response of a redirect chain are exposed by fetch.
+ */
+async function saveRotatedCookies(tool: FetchableTool, profileName: string, response: Response): Promise<void> {
+  const now = Date.now() / 1000
+  const cookies = response.headers
+    .getSetCookie()
+    .map(header => parseSetCookieHeader(header, response.url))
+    .filter((cookie): cookie is AmazonCookie => cookie !== null && cookie.domain.includes('amazon'))
+    // Amazon deletes a cookie by expiring it, which the browser context does not save back either
+    .filter(cookie => cookie.expirationDate === undefined || cookie.expirationDate > now)
+  if (cookies.length === 0) {
+    return
+  }
+
+  try {
+    profileManager.mergeRotatedCookies(profileName, cookies)
+    // Otherwise the context would save its older copies back when its next page closes
+    await browserPool.setCookies(profileName, cookies)
+  } catch (error: any) {
+    console.error(`[WARN][${tool}] Failed to save rotated cookies for profile ${profileName}: ${error.message}`)
+  }
+}
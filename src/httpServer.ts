@@ -0,0 +1,221 @@
+import crypto from 'crypto'
+import http from 'http'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+
+/** Maximum size of a JSON-RPC request body */
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+export interface HttpServerOptions {
+  host: string
+  port: number
+  /** Bearer token every request must present in the `Authorization` header */
+  authToken: string
+  /** Time without any request after which a Streamable HTTP client session is closed */
+  sessionIdleTimeoutMs: number
+}
+
+/**
+ * Streamable HTTP client session, closed once abandoned by its client
+ */
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport
+  /** Requests of the session still being answered, e.g. the GET stream of the server notifications */
+  openRequests: number
+  idleTimer?: NodeJS.Timeout
+}
+
+/**
+ * A request the server cannot handle, answered with its HTTP status and JSON-RPC error code
+ */
+class JsonRpcHttpError extends Error {
+  readonly status: number
+  readonly code: number
+
+  constructor(status: number, code: number, message: string) {
+    super(message)
+    this.name = 'JsonRpcHttpError'
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * Check the `Authorization: Bearer <token>` header in constant time
+ */
+function isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)
+  if (!match) {
+    return false
+  }
+  const expected = Buffer.from(authToken)
+  const received = Buffer.from(match[1].trim())
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new JsonRpcHttpError(413, -32600, 'Request body too large')
+    }
+    chunks.push(chunk)
+  }
+  const body = Buffer.concat(chunks).toString('utf-8')
+  if (!body) {
+    return undefined
+  }
+  try {
+    return JSON.parse(body)
+  } catch {
+    throw new JsonRpcHttpError(400, -32700, 'Parse error')
+  }
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+  headers: http.OutgoingHttpHeaders = {},
+  code = -32000
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }))
+}
+
+/**
+ * Start an HTTP server sharing the MCP server between several clients.
+ * - `/mcp`: Streamable HTTP transport (POST, GET and DELETE)
+ * - `/sse` and `/messages`: legacy HTTP+SSE transport
+ *
+ * Every client session gets its own MCP server instance from `createServer`.
+ * The Streamable HTTP sessions without any request for `sessionIdleTimeoutMs` are closed, the clients may never send DELETE.
+ */
+export async function startHttpServer(createServer: () => McpServer, options: HttpServerOptions): Promise<http.Server> {
+  const streamableSessions = new Map<string, StreamableSession>()
+  const sseTransports = new Map<string, SSEServerTransport>()
+
+  const startIdleTimer = (sessionId: string, session: StreamableSession) => {
+    clearTimeout(session.idleTimer)
+    session.idleTimer = setTimeout(() => {
+      console.error(`[INFO][http] Closing the client session ${sessionId}, idle for ${options.sessionIdleTimeoutMs} ms`)
+      void session.transport.close()
+    }, options.sessionIdleTimeoutMs)
+    session.idleTimer.unref()
+  }
+
+  // A session is idle once all its requests are answered
+  const trackRequest = (sessionId: string, session: StreamableSession, res: http.ServerResponse) => {
+    clearTimeout(session.idleTimer)
+    session.openRequests++
+    res.once('close', () => {
+      session.openRequests--
+      if (session.openRequests === 0 && streamableSessions.get(sessionId) === session) {
+        startIdleTimer(sessionId, session)
+      }
+    })
+  }
+
+  const handleStreamableRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined
+    const sessionId = req.headers['mcp-session-id'] as string | undefined
+
+    const session = sessionId ? streamableSessions.get(sessionId) : undefined
+    let transport: StreamableHTTPServerTransport
+    if (sessionId && session) {
+      transport = session.transport
+      trackRequest(sessionId, session, res)
+    } else {
+      if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, sessionId ? 'Unknown or expired session' : 'Bad Request: no valid session ID provided')
+        return
+      }
+
+      // New client session
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        onsessioninitialized: id => {
+          const newSession: StreamableSession = { transport: newTransport, openRequests: 0 }
+          streamableSessions.set(id, newSession)
+          trackRequest(id, newSession, res)
+          console.error(`[INFO][http] Client session started: ${id}`)
+        },
+      })
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          clearTimeout(streamableSessions.get(newTransport.sessionId)?.idleTimer)
+          streamableSessions.delete(newTransport.sessionId)
+          console.error(`[INFO][http] Client session closed: ${newTransport.sessionId}`)
+        }
+      }
+      await createServer().connect(newTransport)
+      transport = newTransport
+    }
+
+    await transport.handleRequest(req, res, body)
+  }
+
+  const handleSseConnection = async (res: http.ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res)
+    sseTransports.set(transport.sessionId, transport)
+    console.error(`[INFO][http] Legacy SSE client session started: ${transport.sessionId}`)
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId)
+      console.error(`[INFO][http] Legacy SSE client session closed: ${transport.sessionId}`)
+    })
+    await createServer().connect(transport)
+  }
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const transport = sseTransports.get(url.searchParams.get('sessionId') || '')
+    if (!transport) {
+      sendJsonRpcError(res, 400, 'Unknown or expired session')
+      return
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req))
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
+
+    if (!isAuthorized(req, options.authToken)) {
+      console.error(`[WARN][http] Rejected unauthorized ${req.method} ${url.pathname} from ${req.socket.remoteAddress}`)
+      sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' })
+      return
+    }
+
+    try {
+      if (url.pathname === '/mcp' && ['POST', 'GET', 'DELETE'].includes(req.method || '')) {
+        await handleStreamableRequest(req, res)
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnection(res)
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url)
+      } else {
+        sendJsonRpcError(res, 404, 'Not Found')
+      }
+    } catch (error: any) {
+      if (error instanceof JsonRpcHttpError) {
+        console.error(`[WARN][http] Rejected ${req.method} ${url.pathname}: ${error.message}`)
+        if (!res.headersSent) {
+          sendJsonRpcError(res, error.status, error.message, {}, error.code)
+        }
+        return
+      }
+      console.error(`[ERROR][http] Error handling ${req.method} ${url.pathname}:`, error)
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, `Internal server error: ${error.message}`)
+      }
+    }
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject)
+    httpServer.listen(options.port, options.host, () => resolve())
+  })
+  return httpServer
+}
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'vitest'
+import { OperationQueue } from './operationQueue.js'
+import { RequestContext, runWithRequestContext } from './requestContext.js'
+
+const PROFILE = 'queue-profile'
+
+/**
+ * Start an operation and record when it gets its turn
+ */
+function start(queue: OperationQueue, started: string[], label: string, mode: 'read' | 'write', signal?: AbortSignal) {
+  return queue.acquire(PROFILE, mode, label, signal).then(release => {
+    started.push(label)
+    return release
+  })
+}
+
+/** Let the operations whose turn came resume */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('OperationQueue', () => {
+  test('runs the reads of a profile together', async () => {
+    const queue = new OperationQueue()
+    const started: string[] = []
+
+    await Promise.all([start(queue, started, 'read-1', 'read'), start(queue, started, 'read-2', 'read')])
+
+    expect(started).toEqual(['read-1', 'read-2'])
+  })
+
+  test('runs a write alone, and the operations in call order', async () => {
+    const queue = new OperationQueue()
+    const started: string[] = []
+
+    const releaseRead = await start(queue, started, 'read-1', 'read')
+    const write = start(queue, started, 'write-1', 'write')
+    // Queued behind the write even though it could run alongside the first read
+    const read = start(queue, started, 'read-2', 'read')
+    await settle()
+    expect(started).toEqual(['read-1'])
+
+    releaseRead()
+    const releaseWrite = await write
+    await settle()
+    expect(started).toEqual(['read-1', 'write-1'])
+
+    releaseWrite()
+    await read
+    expect(started).toEqual(['read-1', 'write-1', 'read-2'])
+  })
+
+  test('does not start another operation when the release is called twice', async () => {
+    const queue = new OperationQueue()
+    const started: string[] = []
+
+    const releaseFirst = await start(queue, started, 'write-1', 'write')
+    const second = start(queue, started, 'write-2', 'write')
+    const third = start(queue, started, 'write-3', 'write')
+
+    releaseFirst()
+    await second
+    releaseFirst()
+    await settle()
+    expect(started).toEqual(['write-1', 'write-2'])
+
+    ;(await second)()
+    ;(await third)()
+  })
+
+  test('removes a cancelled operation from the queue and moves the next ones up', async () => {
+    const queue = new OperationQueue()
+    const started: string[] = []
+    const controller = new AbortController()
+
+    const release = await start(queue, started, 'write-1', 'write')
+    const cancelled = start(queue, started, 'write-2', 'write', controller.signal)
+    const next = start(queue, started, 'write-3', 'write')
+
+    controller.abort()
+    await expect(cancelled).rejects.toThrow('cancelled')
+
+    release()
+    ;(await next)()
+    expect(started).toEqual(['write-1', 'write-3'])
+  })
+
+  test('reports the queue position to the request that waits, not the one ending', async () => {
+    const queue = new OperationQueue()
+    const waitingMessages: string[] = []
+    const runningMessages: string[] = []
+    const waitingContext = { onLog: async (message: string) => void waitingMessages.push(message) } as unknown as RequestContext
+    const runningContext = { onLog: async (message: string) => void runningMessages.push(message) } as unknown as RequestContext
+
+    const release = await runWithRequestContext(runningContext, () => queue.acquire(PROFILE, 'write', 'write-1'))
+    const first = runWithRequestContext(waitingContext, () => queue.acquire(PROFILE, 'write', 'write-2'))
+    const second = runWithRequestContext(waitingContext, () => queue.acquire(PROFILE, 'write', 'write-3'))
+
+    // The positions move up when the first operation ends, in the request context of the one ending
+    runWithRequestContext(runningContext, release)
+    ;(await first)()
+    ;(await second)()
+
+    expect(runningMessages).toEqual([])
+    expect(waitingMessages).toEqual([
+      expect.stringContaining('position 1 in the queue'),
+      expect.stringContaining('position 2 in the queue'),
+      expect.stringContaining('position 1 in the queue'),
+    ])
+  })
+})
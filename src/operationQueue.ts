@@ -0,0 +1,135 @@
+import { getRequestContext, reportStatus, runWithRequestContext } from './requestContext.js'
+
+/**
+ * - `read`: runs alongside the other reads of the profile, e.g. loading the cart
+ * - `write`: runs alone, e.g. adding to or clearing the cart
+ */
+export type OperationMode = 'read' | 'write'
+
+interface WaitingOperation {
+  mode: OperationMode
+  label: string
+  start: () => void
+  /** Tell the waiting operation its new position in the queue */
+  notifyPosition: (position: number) => void
+}
+
+interface ProfileQueue {
+  activeReads: number
+  activeWrite: boolean
+  waiting: WaitingOperation[]
+}
+
+/**
+ * Serializes the operations changing the account state of a profile (the cart mutations), so concurrent tool calls
+ * do not interleave, while the operations only reading it run in parallel.
+ * Operations start in call order: a read waits for the writes queued before it.
+ */
+export class OperationQueue {
+  private queues = new Map<string, ProfileQueue>()
+
+  /**
+   * Wait for the turn of an operation on a profile, reporting its position in the queue while it waits
+   *
+   * @returns the function to call once the operation is done, to let the next ones start
+   */
+  async acquire(profile: string, mode: OperationMode, label: string, signal?: AbortSignal): Promise<() => void> {
+    let queue = this.queues.get(profile)
+    if (!queue) {
+      queue = { activeReads: 0, activeWrite: false, waiting: [] }
+      this.queues.set(profile, queue)
+    }
+
+    if (queue.waiting.length > 0 || !this.canStart(queue, mode)) {
+      // Counted as running by startNext when its turn comes
+      await this.waitForTurn(profile, queue, mode, label, signal)
+    } else if (mode === 'write') {
+      queue.activeWrite = true
+    } else {
+      queue.activeReads++
+    }
+
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      if (mode === 'write') {
+        queue.activeWrite = false
+      } else {
+        queue.activeReads--
+      }
+      this.startNext(profile, queue)
+    }
+  }
+
+  private canStart(queue: ProfileQueue, mode: OperationMode): boolean {
+    return mode === 'read' ? !queue.activeWrite : !queue.activeWrite && queue.activeReads === 0
+  }
+
+  private async waitForTurn(profile: string, queue: ProfileQueue, mode: OperationMode, label: string, signal?: AbortSignal): Promise<void> {
+    const activeCount = queue.activeReads + (queue.activeWrite ? 1 : 0)
+    // The positions are also updated by the operation ending, they must reach the client of the waiting one
+    const requestContext = getRequestContext()
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        queue.waiting = queue.waiting.filter(operation => operation !== waiting)
+        reject(new Error('The request was cancelled by the client'))
+        // The operations queued behind move up, and may be able to start now
+        this.startNext(profile, queue, true)
+      }
+      const waiting: WaitingOperation = {
+        mode,
+        label,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        },
+        notifyPosition: position => {
+          const message = `Waiting for the other operations of profile "${profile}" to finish (position ${position} in the queue)`
+          console.error(`[INFO][${label}] ${message}`)
+          // Not a progress notification: the progress of a request must increase, the operation reports its own steps from 0
+          if (requestContext) {
+            void runWithRequestContext(requestContext, () => reportStatus(message))
+          }
+        },
+      }
+      if (signal?.aborted) {
+        reject(new Error('The request was cancelled by the client'))
+        return
+      }
+      queue.waiting.push(waiting)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      console.error(`[INFO][${label}] Queued behind ${activeCount} running and ${queue.waiting.length - 1} waiting operations`)
+      waiting.notifyPosition(queue.waiting.length)
+    })
+  }
+
+  /**
+   * Start the operations at the head of the queue that can run now: a write alone, or consecutive reads together,
+   * then tell the ones still waiting their new position
+   */
+  private startNext(profile: string, queue: ProfileQueue, positionsChanged = false): void {
+    let moved = positionsChanged
+    while (queue.waiting.length > 0 && this.canStart(queue, queue.waiting[0].mode)) {
+      const next = queue.waiting.shift()!
+      // Counted as active right away, the operation resumes asynchronously
+      if (next.mode === 'write') {
+        queue.activeWrite = true
+      } else {
+        queue.activeReads++
+      }
+      next.start()
+      moved = true
+    }
+    if (moved) {
+      queue.waiting.forEach((operation, index) => operation.notifyPosition(index + 1))
+    }
+    if (queue.activeReads === 0 && !queue.activeWrite && queue.waiting.length === 0) {
+      this.queues.delete(profile)
+    }
+  }
+}
+
+export const operationQueue = new OperationQueue()
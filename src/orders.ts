@@ -1,48 +1,94 @@
 import * as cheerio from 'cheerio'
 import fs from 'fs'
+import path from 'path'
 import puppeteer from 'puppeteer'
-import { USE_MOCKS, EXPORT_LIVE_SCRAPING_FOR_MOCKS, getAmazonDomain } from './config.js'
-import { createBrowserAndPage, getTimestamp, throwIfNotLoggedIn } from './utils.js'
+import { z } from 'zod'
+import {
+  USE_MOCKS,
+  EXPORT_LIVE_SCRAPING_FOR_MOCKS,
+  MOCKS_DIR,
+  SELECTOR_TIMEOUT_MS,
+  getAmazonUrl,
+  getProfileSettings,
+} from './config.js'
+import { captureDebugArtifacts } from './debugArtifacts.js'
+import { SelectorMissingError } from './errors.js'
+import { reportProgress } from './requestContext.js'
+import { closePage, getTimestamp, navigateTo, openPage, throwIfCancelled, throwIfNotLoggedIn } from './utils.js'
 
-const __dirname = new URL('.', import.meta.url).pathname
+// ##################################
+// Orders History Types
+// ##################################
+
+export const OrderItemSchema = z.object({
+  title: z.string(),
+  image: z.string().optional(),
+  productUrl: z.string().optional(),
+  asin: z.string().nullable(),
+  returnEligible: z.boolean(),
+  returnDate: z.string().nullable(),
+})
+
+export type OrderItem = z.infer<typeof OrderItemSchema>
+
+export const OrderSchema = z.object({
+  orderInfo: z.object({
+    orderNumber: z.string(),
+    orderDate: z.string(),
+    total: z.string(),
+    deliveryAddress: z.object({
+      name: z.string(),
+      address: z.string(),
+      country: z.string(),
+    }),
+    status: z.string(),
+    collectionDate: z.string().nullable(),
+  }),
+  items: z.array(OrderItemSchema),
+})
+
+export type Order = z.infer<typeof OrderSchema>
 
 // ##################################
 // Get Orders History
 // ##################################
 
-export async function getOrdersHistory() {
+export async function getOrdersHistory(): Promise<Order[]> {
   let html: string
   if (USE_MOCKS) {
     console.error('[INFO][get-orders-history] Fetching orders history from mocks')
-    const mockPath = `${__dirname}/../mocks/getOrdersHistory.html`
+    const mockPath = path.join(MOCKS_DIR, 'getOrdersHistory.html')
     html = fs.readFileSync(mockPath, 'utf-8')
   } else {
-    const domain = getAmazonDomain()
-    const url = `https://www.${domain}/-/en/gp/css/order-history`
+    const url = getAmazonUrl('/gp/css/order-history')
     console.error(`[INFO][get-orders-history] Fetching orders history from ${url}`)
 
-    const { browser, page } = await createBrowserAndPage()
+    await reportProgress(0, 3, 'Opening a browser page')
+    const page = await openPage('get-orders-history')
 
     try {
       // Navigate to the page
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 })
+      await reportProgress(1, 3, 'Loading the orders history')
+      await navigateTo(page, url)
 
       // Handle login if needed
       await throwIfNotLoggedIn(page)
 
       // Wait for the order cards to load (adjust selector as needed)
       try {
-        await page.waitForSelector('.order-card, .your-orders-content-container', { timeout: 10000 })
+        await page.waitForSelector('.order-card, .your-orders-content-container', { timeout: SELECTOR_TIMEOUT_MS })
       } catch (e) {
-        throw new Error(
-          '[INFO][get-orders-history] Could not find orders card selector. Ensure you are logged in and the orders history is accessible.'
+        throwIfCancelled()
+        throw new SelectorMissingError(
+          'Could not find the order cards. Ensure you are logged in and the orders history is accessible.',
+          '.order-card, .your-orders-content-container'
         )
       }
 
       if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
         // Export only the .order-card and .your-orders-content-container content to a mock file
         const timestamp = getTimestamp()
-        const mockPath = `${__dirname}/../mocks/getOrdersHistory_${timestamp}.html`
+        const mockPath = path.join(MOCKS_DIR, `getOrdersHistory_${timestamp}.html`)
         const orderCardsHtml = await page.$$eval('.order-card, .your-orders-content-container', elements =>
           elements.map(el => el.outerHTML).join('\n')
         )
@@ -52,19 +98,25 @@ export async function getOrdersHistory() {
 
       // Get the HTML content after JavaScript execution
       html = await page.content()
+    } catch (error) {
+      await captureDebugArtifacts(page, 'get-orders-history', error)
+      throw error
     } finally {
-      await browser.close()
+      await closePage(page)
     }
   }
 
+  await reportProgress(2, 3, 'Extracting the orders')
   const $ = cheerio.load(html)
+  const maxOrders = getProfileSettings().limits?.maxOrders
   const orderCards = $('.order-card')
+    .slice(0, maxOrders)
     .map((index, element) => extractOrdersHistoryPageData($, $(element)))
     .get()
   return orderCards
 }
 
-function extractOrdersHistoryPageData($: cheerio.CheerioAPI, $card: cheerio.Cheerio<any>) {
+export function extractOrdersHistoryPageData($: cheerio.CheerioAPI, $card: cheerio.Cheerio<any>): Order {
   // Extract order information
   const orderNumber = $card.find('.yohtmlc-order-id span').last().text().trim()
   const orderDate = $card.find('.order-header__header-list-item').first().find('.a-size-base').text().trim()
@@ -79,14 +131,7 @@ function extractOrdersHistoryPageData($: cheerio.CheerioAPI, $card: cheerio.Chee
   const deliveryCountry = $card.find('.a-popover-preload .a-row').last().text().trim()
 
   // Extract items
-  const items: {
-    title: string
-    image: string | undefined
-    productUrl: string | undefined
-    asin: string | null
-    returnEligible: boolean
-    returnDate: string | null
-  }[] = []
+  const items: OrderItem[] = []
   $card.find('.item-box').each((index, element) => {
     const $element = $(element)
     const title = $element.find('.yohtmlc-product-title a').text().trim()
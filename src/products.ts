@@ -1,88 +1,119 @@
 import * as cheerio from 'cheerio'
 import fs from 'fs'
+import path from 'path'
 import puppeteer from 'puppeteer'
-import { USE_MOCKS, EXPORT_LIVE_SCRAPING_FOR_MOCKS, getAmazonDomain } from './config.js'
-import { createBrowserAndPage, getTimestamp, throwIfNotLoggedIn } from './utils.js'
-
-const __dirname = new URL('.', import.meta.url).pathname
+import { z } from 'zod'
+import {
+  USE_MOCKS,
+  EXPORT_LIVE_SCRAPING_FOR_MOCKS,
+  MOCKS_DIR,
+  SELECTOR_TIMEOUT_MS,
+  getAmazonUrl,
+  getProfileSettings,
+} from './config.js'
+import { captureDebugArtifacts } from './debugArtifacts.js'
+import { InvalidInputError, ProductUnavailableError, SelectorMissingError } from './errors.js'
+import { fetchPageHtml } from './httpFetch.js'
+import { reportProgress } from './requestContext.js'
+import { closePage, getTimestamp, navigateTo, openPage, throwIfCancelled, throwIfNotLoggedIn } from './utils.js'
 
 // ##################################
 // Product Details
 // ##################################
 
-interface ProductDetails {
-  data: {
-    asin: string
-    title: string
-    price: string
-    canUseSubscribeAndSave: boolean
-    description: {
-      overview?: string
-      features?: string
-      facts?: string
-      brandSnapshot?: string
-    }
-    reviews: {
-      averageRating?: string
-      reviewsCount?: string
-    }
-    mainImageUrl?: string
-  }
+const ProductDescriptionSchema = z.object({
+  overview: z.string().optional(),
+  features: z.string().optional(),
+  facts: z.string().optional(),
+  brandSnapshot: z.string().optional(),
+})
+
+export const ProductDetailsDataSchema = z.object({
+  asin: z.string(),
+  title: z.string(),
+  price: z.string(),
+  canUseSubscribeAndSave: z.boolean(),
+  description: ProductDescriptionSchema,
+  reviews: z.object({
+    averageRating: z.string().optional(),
+    reviewsCount: z.string().optional(),
+  }),
+  mainImageUrl: z.string().optional(),
+})
+
+export interface ProductDetails {
+  data: z.infer<typeof ProductDetailsDataSchema>
   mainImageBase64?: string
 }
 
 export async function getProductDetails(asin: string): Promise<ProductDetails> {
   if (!asin || asin.length !== 10) {
-    throw new Error('Invalid ASIN provided. ASIN should be a 10-character string.')
+    throw new InvalidInputError('Invalid ASIN provided. ASIN should be a 10-character string.')
   }
 
   let html: string
   if (USE_MOCKS) {
     console.error('[INFO][get-product-details] Fetching product details from mocks')
-    const mockPath = `${__dirname}/../mocks/getProductDetails.html`
+    const mockPath = path.join(MOCKS_DIR, 'getProductDetails.html')
     html = fs.readFileSync(mockPath, 'utf-8')
   } else {
-    const domain = getAmazonDomain()
-    const url = `https://www.${domain}/-/en/gp/product/${asin}`
+    const url = getAmazonUrl(`/gp/product/${asin}`)
     console.error(`[INFO][get-product-details] Fetching product details from ${url}`)
 
-    const { browser, page } = await createBrowserAndPage()
+    await reportProgress(0, 3, 'Loading the product page')
+    const fetched = await fetchPageHtml('get-product-details', url, { requiredSelector: '#productTitle', mockName: 'getProductDetails' })
+    html = fetched.html ?? (await loadProductPageInBrowser(url, asin, fetched.rateLimited))
+  }
 
-    try {
-      // Navigate to the product page
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 })
+  await reportProgress(2, 3, 'Extracting the product details')
+  const $ = cheerio.load(html)
+  return extractProductDetailsPageData($, asin)
+}
 
-      // Handle login if needed
-      await throwIfNotLoggedIn(page)
+/**
+ * Load a product page in the browser, when it could not be fetched over HTTP
+ *
+ * @param rateLimited the HTTP request took the rate limit slot of the page
+ */
+async function loadProductPageInBrowser(url: string, asin: string, rateLimited: boolean): Promise<string> {
+  await reportProgress(1, 3, 'Loading the product page in the browser')
+  const page = await openPage('get-product-details')
 
-      // Wait for the product page to load
-      try {
-        await page.waitForSelector('#productTitle', { timeout: 10000 })
-      } catch (e) {
-        throw new Error('[INFO][get-product-details] Could not find product title. The product may not exist or be accessible.')
-      }
+  try {
+    // Navigate to the product page
+    await navigateTo(page, url, 'networkidle2', { rateLimited })
 
-      if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
-        // Export the main product content to a mock file
-        const timestamp = getTimestamp()
-        const mockPath = `${__dirname}/../mocks/getProductDetails_${timestamp}.html`
-        const productHtml = await page.content()
-        fs.writeFileSync(mockPath, productHtml)
-        console.error(`[INFO][get-product-details] Exported product page HTML to ${mockPath}`)
-      }
+    // Handle login if needed
+    await throwIfNotLoggedIn(page)
 
-      // Get the HTML content after JavaScript execution
-      html = await page.content()
-    } finally {
-      await browser.close()
+    // Wait for the product page to load
+    try {
+      await page.waitForSelector('#productTitle', { timeout: SELECTOR_TIMEOUT_MS })
+    } catch (e) {
+      throwIfCancelled()
+      throw new ProductUnavailableError(`Could not find the title of product ${asin}. The product may not exist or be accessible.`, asin)
     }
-  }
 
-  const $ = cheerio.load(html)
-  return extractProductDetailsPageData($, asin)
+    if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
+      // Export the main product content to a mock file
+      const timestamp = getTimestamp()
+      const mockPath = path.join(MOCKS_DIR, `getProductDetails_${timestamp}.html`)
+      const productHtml = await page.content()
+      fs.writeFileSync(mockPath, productHtml)
+      console.error(`[INFO][get-product-details] Exported product page HTML to ${mockPath}`)
+    }
+
+    // Get the HTML content after JavaScript execution
+    return await page.content()
+  } catch (error) {
+    await captureDebugArtifacts(page, 'get-product-details', error)
+    throw error
+  } finally {
+    await closePage(page)
+  }
 }
 
-async function extractProductDetailsPageData($: cheerio.CheerioAPI, asin: string): Promise<ProductDetails> {
+export async function extractProductDetailsPageData($: cheerio.CheerioAPI, asin: string): Promise<ProductDetails> {
   // Extract product title
   const title = $('span#productTitle').text().trim()
 
@@ -136,7 +167,7 @@ async function extractProductDetailsPageData($: cheerio.CheerioAPI, asin: string
   if (mainImageUrl) {
     if (USE_MOCKS) {
       console.error('[INFO][get-product-details] Downloading product main image from mocks')
-      const mockPath = `${__dirname}/../mocks/getProductDetails_image_base64.txt`
+      const mockPath = path.join(MOCKS_DIR, 'getProductDetails_image_base64.txt')
       mainImageBase64 = fs.readFileSync(mockPath, 'utf-8')
     } else {
       // FIXME: This is not supported yet by Claude Desktop client!! Uncomment when they implement it
@@ -144,7 +175,7 @@ async function extractProductDetailsPageData($: cheerio.CheerioAPI, asin: string
       // mainImageBase64 = await downloadImageAsBase64(mainImageUrl)
       // if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
       //   const timestamp = getTimestamp()
-      //   const mockPath = `${__dirname}/../mocks/getProductDetails_image_base64_${timestamp}.txt`
+      //   const mockPath = path.join(MOCKS_DIR, `getProductDetails_image_base64_${timestamp}.txt`)
       //   fs.writeFileSync(mockPath, mainImageBase64)
       //   console.error(`[INFO][get-product-details] Exported main image base64 to ${mockPath}`)
       // }
@@ -173,84 +204,100 @@ async function extractProductDetailsPageData($: cheerio.CheerioAPI, asin: string
 // Product Search
 // ##################################
 
-interface ProductSearchResult {
-  asin: string
-  title: string
-  isSponsored: boolean
-  brand?: string
-  price?: string
-  pricePerUnit?: string
-  description?: {
-    overview?: string
-    features?: string
-    facts?: string
-    brandSnapshot?: string
-  }
-  reviews?: {
-    averageRating?: string
-    reviewCount?: string
-  }
-  imageUrl?: string
-  isPrimeEligible: boolean
-  deliveryInfo?: string
-  productUrl?: string
-}
+export const ProductSearchResultSchema = z.object({
+  asin: z.string(),
+  title: z.string(),
+  isSponsored: z.boolean(),
+  brand: z.string().optional(),
+  price: z.string().optional(),
+  pricePerUnit: z.string().optional(),
+  description: ProductDescriptionSchema.optional(),
+  reviews: z
+    .object({
+      averageRating: z.string().optional(),
+      reviewCount: z.string().optional(),
+    })
+    .optional(),
+  imageUrl: z.string().optional(),
+  isPrimeEligible: z.boolean(),
+  deliveryInfo: z.string().optional(),
+  productUrl: z.string().optional(),
+})
+
+export type ProductSearchResult = z.infer<typeof ProductSearchResultSchema>
 
 export async function searchProducts(searchTerm: string): Promise<ProductSearchResult[]> {
   if (!searchTerm || searchTerm.trim().length === 0) {
-    throw new Error('Search term is required and cannot be empty.')
+    throw new InvalidInputError('Search term is required and cannot be empty.')
   }
 
   let html: string
   if (USE_MOCKS) {
     console.error('[INFO][search-products] Fetching search results from mocks')
-    const mockPath = `${__dirname}/../mocks/searchProducts.html`
+    const mockPath = path.join(MOCKS_DIR, 'searchProducts.html')
     html = fs.readFileSync(mockPath, 'utf-8')
   } else {
-    const domain = getAmazonDomain()
-    const url = `https://www.${domain}/s?k=${encodeURIComponent(searchTerm)}`
+    const url = getAmazonUrl(`/s?k=${encodeURIComponent(searchTerm)}`)
     console.error(`[INFO][search-products] Searching for products with term "${searchTerm}" from ${url}`)
 
-    const { browser, page } = await createBrowserAndPage()
+    await reportProgress(0, 3, 'Loading the search results')
+    const fetched = await fetchPageHtml('search-products', url, { requiredSelector: '.s-search-results', mockName: 'searchProducts' })
+    html = fetched.html ?? (await loadSearchPageInBrowser(url, fetched.rateLimited))
+  }
 
-    try {
-      // Navigate to the search page
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 })
-
-      // Handle login if needed
-      await throwIfNotLoggedIn(page)
-
-      // Wait for search results to load
-      try {
-        await page.waitForSelector('.s-search-results', { timeout: 10000 })
-      } catch (e) {
-        throw new Error(
-          '[INFO][search-products] Could not find search results container. The search may have failed or returned no results.'
-        )
-      }
+  await reportProgress(2, 3, 'Extracting the search results')
+  const $ = cheerio.load(html)
+  return extractSearchResultsPageData($, searchTerm)
+}
 
-      if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
-        // Export the search results content to a mock file
-        const timestamp = getTimestamp()
-        const searchResultsHtml = await page.$eval('.s-search-results', el => el.outerHTML)
-        const mockFileName = `searchProducts_${timestamp}.html`
-        const mockPath = `${__dirname}/../mocks/${mockFileName}`
-        fs.writeFileSync(mockPath, searchResultsHtml)
-        console.error(`[INFO][search-products] Exported search results HTML to ${mockPath}`)
-      }
+/**
+ * Load a search results page in the browser, when it could not be fetched over HTTP
+ *
+ * @param rateLimited the HTTP request took the rate limit slot of the page
+ */
+async function loadSearchPageInBrowser(url: string, rateLimited: boolean): Promise<string> {
+  await reportProgress(1, 3, 'Loading the search results in the browser')
+  const page = await openPage('search-products')
 
-      // Get the HTML content after JavaScript execution
-      html = await page.content()
-    } finally {
-      await browser.close()
+  try {
+    // Navigate to the search page
+    await navigateTo(page, url, 'networkidle2', { rateLimited })
+
+    // Handle login if needed
+    await throwIfNotLoggedIn(page)
+
+    // Wait for search results to load
+    try {
+      await page.waitForSelector('.s-search-results', { timeout: SELECTOR_TIMEOUT_MS })
+    } catch (e) {
+      throwIfCancelled()
+      throw new SelectorMissingError(
+        'Could not find the search results container. The search may have failed or returned no results.',
+        '.s-search-results'
+      )
     }
-  }
 
-  const $ = cheerio.load(html)
-  return extractSearchResultsPageData($, searchTerm)
+    if (EXPORT_LIVE_SCRAPING_FOR_MOCKS) {
+      // Export the search results content to a mock file
+      const timestamp = getTimestamp()
+      const searchResultsHtml = await page.$eval('.s-search-results', el => el.outerHTML)
+      const mockFileName = `searchProducts_${timestamp}.html`
+      const mockPath = path.join(MOCKS_DIR, `${mockFileName}`)
+      fs.writeFileSync(mockPath, searchResultsHtml)
+      console.error(`[INFO][search-products] Exported search results HTML to ${mockPath}`)
+    }
+
+    // Get the HTML content after JavaScript execution
+    return await page.content()
+  } catch (error) {
+    await captureDebugArtifacts(page, 'search-products', error)
+    throw error
+  } finally {
+    await closePage(page)
+  }
 }
 
-function extractSearchResultsPageData($: cheerio.CheerioAPI, searchTerm: string): ProductSearchResult[] {
+export function extractSearchResultsPageData($: cheerio.CheerioAPI, searchTerm: string): ProductSearchResult[] {
   const searchResults: ProductSearchResult[] = []
 
   // Find the search results using the actual Amazon structure
@@ -261,8 +308,8 @@ function extractSearchResultsPageData($: cheerio.CheerioAPI, searchTerm: string)
     return []
   }
 
-  // Limit to first 20 items
-  const limitedItems = $productItems.slice(0, 20)
+  // Limit to first 20 items, unless the profile settings define another limit
+  const limitedItems = $productItems.slice(0, getProfileSettings().limits?.maxSearchResults ?? 20)
 
   console.error(`[INFO][search-products] Found ${$productItems.length} products, processing first ${limitedItems.length}`)
 
@@ -336,8 +383,7 @@ function extractSearchResultSingleProductData($: cheerio.CheerioAPI, $item: chee
   const deliveryInfo = $item.find('div.udm-primary-delivery-message').text().trim() || undefined
 
   // Extract product URL
-  const domain = getAmazonDomain()
-  const productUrl = `https://www.${domain}/-/en/gp/product/${asin}`
+  const productUrl = getAmazonUrl(`/gp/product/${asin}`)
 
   return {
     asin,
@@ -0,0 +1,91 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, test } from 'vitest'
+import {
+  decryptProfileData,
+  encryptProfileData,
+  isEncryptedEnvelope,
+  PASSPHRASE_ENV,
+  ProfileEncryptionError,
+  readProfileFile,
+  writeProfileFile,
+} from './profileCrypto.js'
+
+const COOKIES = [{ domain: '.amazon.com', name: 'session-id', value: '123-4567890-1234567', path: '/' }]
+
+describe('encryptProfileData', () => {
+  test('decrypts back to the plaintext with the same secret', () => {
+    const plaintext = JSON.stringify(COOKIES)
+    const envelope = encryptProfileData(plaintext, 'correct horse battery staple')
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true)
+    expect(envelope.data).not.toContain('123-4567890-1234567')
+    expect(decryptProfileData(envelope, 'correct horse battery staple')).toBe(plaintext)
+  })
+
+  test('uses a new salt and IV for every encryption', () => {
+    const first = encryptProfileData('cookies', 'secret')
+    const second = encryptProfileData('cookies', 'secret')
+
+    expect(second.salt).not.toBe(first.salt)
+    expect(second.iv).not.toBe(first.iv)
+    expect(second.data).not.toBe(first.data)
+  })
+
+  test('refuses a wrong secret or a tampered file', () => {
+    const envelope = encryptProfileData('cookies', 'secret')
+    const tampered = { ...envelope, data: Buffer.from('tampered').toString('base64') }
+
+    expect(() => decryptProfileData(envelope, 'wrong secret')).toThrow(ProfileEncryptionError)
+    expect(() => decryptProfileData(tampered, 'secret')).toThrow(ProfileEncryptionError)
+  })
+})
+
+describe('isEncryptedEnvelope', () => {
+  test('recognizes only the envelopes of the encryption algorithm', () => {
+    expect(isEncryptedEnvelope(encryptProfileData('cookies', 'secret'))).toBe(true)
+    expect(isEncryptedEnvelope(COOKIES)).toBe(false)
+    expect(isEncryptedEnvelope({ encrypted: 'aes-128-cbc' })).toBe(false)
+    expect(isEncryptedEnvelope(null)).toBe(false)
+  })
+})
+
+describe('writeProfileFile and readProfileFile', () => {
+  let dir: string
+  let profilePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-amazon-crypto-'))
+    profilePath = path.join(dir, 'test.json')
+  })
+
+  afterEach(() => {
+    delete process.env[PASSPHRASE_ENV]
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('write plain JSON when no key is configured', () => {
+    writeProfileFile(profilePath, COOKIES)
+
+    expect(JSON.parse(fs.readFileSync(profilePath, 'utf-8'))).toEqual(COOKIES)
+    expect(readProfileFile(profilePath)).toEqual(COOKIES)
+    expect(fs.statSync(profilePath).mode & 0o777).toBe(0o600)
+  })
+
+  test('encrypt the file when a passphrase is configured', () => {
+    process.env[PASSPHRASE_ENV] = 'passphrase'
+    writeProfileFile(profilePath, COOKIES)
+
+    expect(isEncryptedEnvelope(JSON.parse(fs.readFileSync(profilePath, 'utf-8')))).toBe(true)
+    expect(readProfileFile(profilePath)).toEqual(COOKIES)
+  })
+
+  test('refuse to read an encrypted file once the key is removed', () => {
+    process.env[PASSPHRASE_ENV] = 'passphrase'
+    writeProfileFile(profilePath, COOKIES)
+    delete process.env[PASSPHRASE_ENV]
+
+    expect(() => readProfileFile(profilePath)).toThrow(/no key is configured/)
+  })
+})
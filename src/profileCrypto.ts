@@ -0,0 +1,159 @@
+import crypto from 'crypto'
+import fs from 'fs'
+
+/** Environment variable holding the passphrase used to encrypt profile files */
+export const PASSPHRASE_ENV = 'AMAZON_MCP_PROFILES_PASSPHRASE'
+
+/** Environment variable holding the path to a key file used to encrypt profile files */
+export const KEY_FILE_ENV = 'AMAZON_MCP_PROFILES_KEY_FILE'
+
+const ALGORITHM = 'aes-256-gcm'
+const KEY_LENGTH = 32
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+
+/**
+ * On-disk format of an encrypted profile file.
+ * The cookies JSON is encrypted with AES-256-GCM using a key derived from the secret with scrypt.
+ */
+interface EncryptedProfileEnvelope {
+  encrypted: typeof ALGORITHM
+  version: 1
+  kdf: 'scrypt'
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+/**
+ * Error raised when an encrypted profile cannot be read (missing or wrong key, corrupted file)
+ */
+export class ProfileEncryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProfileEncryptionError'
+  }
+}
+
+/**
+ * Get the secret used to encrypt profiles, from the passphrase or the key file environment variable.
+ * Returns null when encryption is not configured.
+ */
+export function getProfileSecret(): string | null {
+  const passphrase = process.env[PASSPHRASE_ENV]
+  if (passphrase) {
+    return passphrase
+  }
+
+  const keyFile = process.env[KEY_FILE_ENV]
+  if (keyFile) {
+    try {
+      const key = fs.readFileSync(keyFile, 'utf-8').trim()
+      if (!key) {
+        throw new Error('key file is empty')
+      }
+      return key
+    } catch (error: any) {
+      throw new ProfileEncryptionError(`Could not read profile key file ${keyFile} (${KEY_FILE_ENV}): ${error.message}`)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check whether profile encryption is configured
+ */
+export function isEncryptionEnabled(): boolean {
+  return Boolean(process.env[PASSPHRASE_ENV] || process.env[KEY_FILE_ENV])
+}
+
+/**
+ * Check whether a parsed profile file is an encrypted envelope
+ */
+export function isEncryptedEnvelope(json: unknown): json is EncryptedProfileEnvelope {
+  return typeof json === 'object' && json !== null && 'encrypted' in json && json.encrypted === ALGORITHM
+}
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(secret, salt, KEY_LENGTH)
+}
+
+/**
+ * Encrypt a plaintext string into an envelope
+ */
+export function encryptProfileData(plaintext: string, secret: string): EncryptedProfileEnvelope {
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret, salt), iv)
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()])
+
+  return {
+    encrypted: ALGORITHM,
+    version: 1,
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+}
+
+/**
+ * Decrypt an envelope back into its plaintext string
+ */
+export function decryptProfileData(envelope: EncryptedProfileEnvelope, secret: string): string {
+  try {
+    const key = deriveKey(secret, Buffer.from(envelope.salt, 'base64'))
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf-8')
+  } catch (error) {
+    throw new ProfileEncryptionError(
+      `Could not decrypt profile: the key in ${PASSPHRASE_ENV} or ${KEY_FILE_ENV} is wrong or the file is corrupted.`
+    )
+  }
+}
+
+/**
+ * Read a profile file and return its parsed JSON content, decrypting it if needed
+ */
+export function readProfileFile(filePath: string): any {
+  const json = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  if (!isEncryptedEnvelope(json)) {
+    return json
+  }
+
+  const secret = getProfileSecret()
+  if (!secret) {
+    throw new ProfileEncryptionError(
+      `Profile is encrypted but no key is configured. Set ${PASSPHRASE_ENV} or ${KEY_FILE_ENV} and restart the server.`
+    )
+  }
+  return JSON.parse(decryptProfileData(json, secret))
+}
+
+/**
+ * Write JSON content to a profile file, encrypting it when a key is configured.
+ * The file is written to a temporary file first then renamed, so readers never see a partial write.
+ */
+export function writeProfileFile(filePath: string, content: unknown): void {
+  const plaintext = JSON.stringify(content, null, 2)
+  const secret = getProfileSecret()
+  const data = secret ? JSON.stringify(encryptProfileData(plaintext, secret), null, 2) : plaintext
+  const tempPath = `${filePath}.tmp`
+  fs.writeFileSync(tempPath, data, { mode: 0o600 })
+  fs.renameSync(tempPath, filePath)
+}
+
+/**
+ * Check whether a profile file on disk is encrypted
+ */
+export function isProfileFileEncrypted(filePath: string): boolean {
+  try {
+    return isEncryptedEnvelope(JSON.parse(fs.readFileSync(filePath, 'utf-8')))
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,97 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { isProfileFileEncrypted, PASSPHRASE_ENV } from './profileCrypto.js'
+import { AmazonCookie, profileManager } from './profileManager.js'
+import { serverConfig } from './serverConfig.js'
+
+const PROFILE = 'merge-profile'
+const RENAMED_PROFILE = 'merge-profile-renamed'
+
+const SESSION_ID: AmazonCookie = { domain: '.amazon.com', name: 'session-id', value: '123-4567890-1234567', path: '/' }
+const SESSION_TOKEN: AmazonCookie = { domain: '.amazon.com', name: 'session-token', value: 'old-token', path: '/', expirationDate: 1900000000 }
+
+function profilePath(profile: string): string {
+  return path.join(serverConfig.profilesDir, `${profile}.json`)
+}
+
+beforeEach(() => {
+  const saved = profileManager.saveProfile(PROFILE, JSON.stringify([SESSION_ID, SESSION_TOKEN]))
+  expect(saved.success, saved.message).toBe(true)
+})
+
+afterEach(() => {
+  for (const profile of [PROFILE, RENAMED_PROFILE]) {
+    if (fs.existsSync(profilePath(profile))) {
+      profileManager.deleteProfile(profile)
+    }
+  }
+})
+
+describe('mergeRotatedCookies', () => {
+  test('updates the rotated cookies and adds the new ones, keeping a backup', () => {
+    const rotated = { ...SESSION_TOKEN, value: 'new-token', expirationDate: 1950000000 }
+    const added: AmazonCookie = { domain: '.amazon.com', name: 'csm-hit', value: 'tb:s', path: '/' }
+
+    expect(profileManager.mergeRotatedCookies(PROFILE, [SESSION_ID, rotated, added])).toEqual({ updated: 1, added: 1 })
+
+    const cookies = profileManager.readProfileCookies(PROFILE)
+    expect(cookies.find(cookie => cookie.name === 'session-token')).toMatchObject({ value: 'new-token', expirationDate: 1950000000 })
+    expect(cookies.find(cookie => cookie.name === 'csm-hit')).toMatchObject({ value: 'tb:s' })
+    expect(cookies).toHaveLength(3)
+    expect(JSON.parse(fs.readFileSync(`${profilePath(PROFILE)}.bak`, 'utf-8'))).toContainEqual(expect.objectContaining({ value: 'old-token' }))
+  })
+
+  test('does not rewrite the profile when no cookie changed', () => {
+    expect(profileManager.mergeRotatedCookies(PROFILE, [SESSION_ID, SESSION_TOKEN])).toEqual({ updated: 0, added: 0 })
+    expect(fs.existsSync(`${profilePath(PROFILE)}.bak`)).toBe(false)
+  })
+
+  test('keeps the saved cookies when the profile disables persistRotatedCookies', () => {
+    profileManager.updateProfileSettings(PROFILE, { persistRotatedCookies: false })
+
+    expect(profileManager.mergeRotatedCookies(PROFILE, [{ ...SESSION_TOKEN, value: 'new-token' }])).toEqual({ updated: 0, added: 0 })
+    expect(profileManager.readProfileCookies(PROFILE).find(cookie => cookie.name === 'session-token')?.value).toBe('old-token')
+  })
+})
+
+describe('renameProfile', () => {
+  test('moves the cookie backup along with the profile', () => {
+    profileManager.mergeRotatedCookies(PROFILE, [{ ...SESSION_TOKEN, value: 'new-token' }])
+
+    expect(profileManager.renameProfile(PROFILE, RENAMED_PROFILE).success).toBe(true)
+    expect(fs.existsSync(`${profilePath(PROFILE)}.bak`)).toBe(false)
+    expect(fs.existsSync(`${profilePath(RENAMED_PROFILE)}.bak`)).toBe(true)
+  })
+})
+
+describe('encrypting the profiles on startup', () => {
+  let profilesDir: string
+
+  beforeEach(() => {
+    // A profiles directory of its own: the other test files must keep reading their profiles without the key
+    profilesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-amazon-encrypt-'))
+    vi.stubEnv('AMAZON_MCP_PROFILES_DIR', profilesDir)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    fs.rmSync(profilesDir, { recursive: true, force: true })
+  })
+
+  test('encrypts the plaintext profiles and their cookie backups once a key is configured', async () => {
+    fs.writeFileSync(path.join(profilesDir, 'work.json'), JSON.stringify([SESSION_ID, SESSION_TOKEN]))
+    fs.writeFileSync(path.join(profilesDir, 'work.json.bak'), JSON.stringify([SESSION_ID]))
+    fs.writeFileSync(path.join(profilesDir, 'work.settings.json'), JSON.stringify({ persistRotatedCookies: true }))
+    vi.stubEnv(PASSPHRASE_ENV, 'passphrase')
+
+    vi.resetModules()
+    const { profileManager } = await import('./profileManager.js')
+
+    expect(isProfileFileEncrypted(path.join(profilesDir, 'work.json'))).toBe(true)
+    expect(isProfileFileEncrypted(path.join(profilesDir, 'work.json.bak'))).toBe(true)
+    expect(profileManager.getProfileSettings('work')).toEqual({ persistRotatedCookies: true })
+    expect(profileManager.readProfileCookies('work')).toHaveLength(2)
+  })
+})
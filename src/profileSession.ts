@@ -0,0 +1,428 @@
+import { LoggingLevelSchema, type ElicitRequest, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import { assessCookieHealth, CookieHealth } from './cookieHealth.js'
+import type { AmazonCookie, ProfileManager, ProfileSettings } from './profileManager.js'
+import { serverConfig } from './serverConfig.js'
+
+/** Scopes of a session confirmation, from the least to the most sensitive */
+export const CONFIRMATION_SCOPES = ['read', 'cart', 'purchase'] as const
+
+/**
+ * - `read`: view the cart and orders history
+ * - `cart`: add items to or clear the cart
+ * - `purchase`: complete a purchase
+ */
+export type ConfirmationScope = (typeof CONFIRMATION_SCOPES)[number]
+
+/** What each scope allows, phrased to complete "Which Amazon account should be used to ..." */
+const SCOPE_ACTIONS: Record<ConfirmationScope, string> = {
+  read: 'view the cart and orders history',
+  cart: 'add items to or clear the cart',
+  purchase: 'complete a purchase',
+}
+
+/**
+ * Get the maximum time-to-live of a session confirmation for a scope, in minutes
+ */
+export function getConfirmationTtlMinutes(scope: ConfirmationScope): number {
+  switch (scope) {
+    case 'read':
+      return serverConfig.confirmationTtlReadMinutes
+    case 'cart':
+      return serverConfig.confirmationTtlCartMinutes
+    case 'purchase':
+      return serverConfig.confirmationTtlPurchaseMinutes
+  }
+}
+
+interface SessionConfirmation {
+  scope: ConfirmationScope
+  expiresAt: number
+}
+
+export const SessionConfirmationStatusSchema = z.object({
+  scope: z.enum(CONFIRMATION_SCOPES),
+  expiresAt: z.string(),
+  expired: z.boolean(),
+})
+
+export type SessionConfirmationStatus = z.infer<typeof SessionConfirmationStatusSchema>
+
+/**
+ * ProfileSession holds the state of one MCP client: its active profile, its session confirmation and its logging level.
+ * Profiles themselves live in the shared ProfileManager store, which keeps every open session in sync
+ * when a profile is deleted, renamed, overwritten or its cookies are rotated.
+ */
+export class ProfileSession {
+  private currentProfile: string = serverConfig.defaultProfile
+  private currentCookies: AmazonCookie[] = []
+  private currentSettings: ProfileSettings = {}
+  private sessionConfirmation: SessionConfirmation | null = null
+  /** Lowest level of the log messages the client wants, set with `logging/setLevel` */
+  private logLevel: LoggingLevel = 'debug'
+
+  constructor(private readonly store: ProfileManager) {
+    const result = this.loadProfile(serverConfig.defaultProfile)
+    if (!result.success) {
+      console.error(`[WARN] ${result.message}`)
+    }
+  }
+
+  setLogLevel(level: LoggingLevel): void {
+    this.logLevel = level
+  }
+
+  /**
+   * Whether the client wants the log messages of the given level, every message until it sets a level
+   */
+  isLogLevelEnabled(level: LoggingLevel): boolean {
+    return LoggingLevelSchema.options.indexOf(level) >= LoggingLevelSchema.options.indexOf(this.logLevel)
+  }
+
+  /**
+   * Stop receiving profile updates from the store, call this when the client disconnects
+   */
+  close(): void {
+    this.store.closeSession(this)
+  }
+
+  /**
+   * Get the current active profile name
+   */
+  getCurrentProfile(): string {
+    return this.currentProfile
+  }
+
+  /**
+   * Get the current profile's cookies
+   */
+  getCurrentCookies(): AmazonCookie[] {
+    return this.currentCookies
+  }
+
+  /**
+   * Get the current profile's settings
+   */
+  getCurrentSettings(): ProfileSettings {
+    return this.currentSettings
+  }
+
+  /**
+   * Get the UI language of the current profile, used in the `/-/<language>/` URL path
+   */
+  getAmazonLanguage(): string {
+    return this.currentSettings.language || 'en'
+  }
+
+  /**
+   * Get the Amazon domain from current profile's settings, or guess it from its cookies
+   */
+  getAmazonDomain(): string {
+    if (this.currentSettings.marketplace) {
+      return this.currentSettings.marketplace
+    }
+
+    if (this.currentCookies.length === 0) {
+      console.error('[WARN] No cookies loaded, using default amazon.com domain')
+      return 'amazon.com'
+    }
+
+    const domain = this.store.detectAmazonDomain(this.currentCookies)
+    if (domain) {
+      console.error(`[INFO] Detected Amazon domain: ${domain}`)
+      return domain
+    }
+
+    console.error('[WARN] Could not detect Amazon domain, using default amazon.com')
+    return 'amazon.com'
+  }
+
+  /**
+   * Check if session is confirmed for the given scope (a higher scope also grants the lower ones) and not expired
+   */
+  isSessionConfirmed(scope: ConfirmationScope = 'read'): boolean {
+    const confirmation = this.sessionConfirmation
+    if (!confirmation || confirmation.expiresAt <= Date.now()) {
+      return false
+    }
+    return CONFIRMATION_SCOPES.indexOf(confirmation.scope) >= CONFIRMATION_SCOPES.indexOf(scope)
+  }
+
+  /**
+   * Get the session confirmation state, null when the session was never confirmed
+   */
+  getSessionConfirmation(): SessionConfirmationStatus | null {
+    const confirmation = this.sessionConfirmation
+    if (!confirmation) {
+      return null
+    }
+    return {
+      scope: confirmation.scope,
+      expiresAt: new Date(confirmation.expiresAt).toISOString(),
+      expired: confirmation.expiresAt <= Date.now(),
+    }
+  }
+
+  /**
+   * Describe the session confirmation state, e.g. "Yes ✅ (cart, expires in 12 min)"
+   */
+  describeSessionConfirmation(): string {
+    const confirmation = this.sessionConfirmation
+    if (!confirmation) {
+      return 'No ⚠️'
+    }
+    const remainingMinutes = Math.ceil((confirmation.expiresAt - Date.now()) / 60000)
+    if (remainingMinutes <= 0) {
+      return `Expired ⚠️ (${confirmation.scope})`
+    }
+    return `Yes ✅ (${confirmation.scope}, expires in ${remainingMinutes} min)`
+  }
+
+  /**
+   * Confirm the current session for account-specific operations up to the given scope.
+   * The confirmation expires after `ttlMinutes`, capped by the scope's configured time-to-live.
+   */
+  confirmSession(
+    profileName?: string,
+    scope: ConfirmationScope = 'read',
+    ttlMinutes?: number
+  ): { success: boolean; message: string; profile: string } {
+    // If a profile name is provided, switch to it first
+    if (profileName && profileName !== this.currentProfile) {
+      const switchResult = this.switchProfile(profileName)
+      if (!switchResult.success) {
+        return switchResult
+      }
+    }
+
+    const maxTtlMinutes = getConfirmationTtlMinutes(scope)
+    const effectiveTtlMinutes = ttlMinutes && ttlMinutes > 0 ? Math.min(ttlMinutes, maxTtlMinutes) : maxTtlMinutes
+    this.sessionConfirmation = { scope, expiresAt: Date.now() + effectiveTtlMinutes * 60000 }
+    console.error(`[INFO] Session confirmed for profile: ${this.currentProfile} (scope: ${scope}, ${effectiveTtlMinutes} min)`)
+    return {
+      success: true,
+      message: `Session confirmed for profile "${this.currentProfile}" with scope "${scope}" for ${effectiveTtlMinutes} minutes. You can now perform account-specific operations.`,
+      profile: this.currentProfile,
+    }
+  }
+
+  /**
+   * Consume a purchase confirmation once it has been used, so every purchase requires a fresh confirmation.
+   * The session stays confirmed for cart operations until the original expiry.
+   */
+  consumePurchaseConfirmation(): void {
+    if (this.sessionConfirmation?.scope === 'purchase') {
+      this.sessionConfirmation = { ...this.sessionConfirmation, scope: 'cart' }
+    }
+  }
+
+  /**
+   * Drop the session confirmation
+   */
+  private resetSessionConfirmation(): void {
+    this.sessionConfirmation = null
+  }
+
+  /**
+   * Get confirmation prompt message for when session is not confirmed for the required scope
+   * Returns a structured JSON object that Claude can recognize and present as AskUserQuestion modal
+   */
+  getConfirmationPrompt(requiredScope: ConfirmationScope = 'read'): string {
+    const profiles = this.store.listProfiles()
+    const profileNames = profiles.map(p => p.name)
+    const reason = this.describeMissingConfirmation()
+
+    // Return structured JSON for Claude to parse and present as AskUserQuestion modal
+    const confirmationData = {
+      type: 'AMAZON_PROFILE_CONFIRMATION_REQUIRED',
+      requiredScope,
+      reason,
+      instructions: `Call confirm-profile with scope "${requiredScope}" once the user has chosen the account.`,
+      currentProfile: this.currentProfile,
+      availableProfiles: profileNames,
+      question: `Which Amazon account should be used for this operation?`,
+      options: profileNames.map(name => ({
+        label: name === this.currentProfile ? `${name} (current)` : name,
+        value: name,
+        description: name === this.currentProfile
+          ? 'Continue with the currently active profile'
+          : `Switch to the ${name} profile`
+      }))
+    }
+
+    return JSON.stringify(confirmationData)
+  }
+
+  /**
+   * Get the elicitation request asking the user to pick the profile to confirm for the required scope,
+   * for clients supporting elicitation. Returns null when there is no profile to pick from.
+   */
+  getConfirmationElicitation(requiredScope: ConfirmationScope = 'read'): ElicitRequest['params'] | null {
+    const profileNames = this.store.listProfiles().map(p => p.name)
+    if (profileNames.length === 0) {
+      return null
+    }
+
+    return {
+      message: `${this.describeMissingConfirmation()} Which Amazon account should be used to ${SCOPE_ACTIONS[requiredScope]}?`,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          profile: {
+            type: 'string',
+            title: 'Amazon account',
+            description: `The profile is confirmed for "${requiredScope}" operations for ${getConfirmationTtlMinutes(requiredScope)} minutes`,
+            enum: profileNames,
+            enumNames: profileNames.map(name => (name === this.currentProfile ? `${name} (current)` : name)),
+            default: profileNames.includes(this.currentProfile) ? this.currentProfile : undefined,
+          },
+        },
+        required: ['profile'],
+      },
+    }
+  }
+
+  /**
+   * Explain why the session is not confirmed for an operation
+   */
+  private describeMissingConfirmation(): string {
+    if (this.sessionConfirmation && this.sessionConfirmation.expiresAt <= Date.now()) {
+      return 'The session confirmation has expired.'
+    } else if (this.sessionConfirmation) {
+      return `The session is only confirmed for "${this.sessionConfirmation.scope}" operations.`
+    }
+    return 'The session has not been confirmed yet.'
+  }
+
+  /**
+   * Load a profile's cookies and settings from the store
+   */
+  private loadProfile(profileName: string): { success: boolean; message: string } {
+    try {
+      const { cookies, settings, message } = this.store.loadProfileData(profileName)
+      this.currentCookies = cookies
+      this.currentSettings = settings
+      this.currentProfile = profileName
+      return { success: true, message }
+    } catch (error: any) {
+      return { success: false, message: error.message }
+    }
+  }
+
+  /**
+   * Inspect the session-critical cookies of a profile (defaults to the active profile)
+   */
+  validateProfile(profileName: string = this.currentProfile): { profile: string; domain: string; health: CookieHealth } {
+    const cookies = profileName === this.currentProfile ? this.currentCookies : this.store.readProfileCookies(profileName)
+    return {
+      profile: profileName,
+      domain: this.store.getProfileSettings(profileName).marketplace || this.store.detectAmazonDomain(cookies) || 'amazon.com',
+      health: assessCookieHealth(cookies),
+    }
+  }
+
+  /**
+   * Switch to a different profile
+   */
+  switchProfile(profileName: string): { success: boolean; message: string; profile: string } {
+    const error = this.store.checkProfileExists(profileName)
+    if (error) {
+      return { success: false, message: error, profile: this.currentProfile }
+    }
+
+    // Load the profile
+    const loadResult = this.loadProfile(profileName)
+    if (loadResult.success) {
+      // Reset session confirmation when switching profiles for safety
+      // This ensures users must confirm before account-specific operations on the new profile
+      this.resetSessionConfirmation()
+      return {
+        success: true,
+        message: `Switched to profile "${profileName}" (${this.currentCookies.length} cookies loaded). ⚠️ Session confirmation required for account-specific operations.`,
+        profile: this.currentProfile,
+      }
+    }
+
+    return {
+      success: false,
+      message: loadResult.message,
+      profile: this.currentProfile,
+    }
+  }
+
+  /**
+   * Delete a profile from the store, reporting the profile this session fell back to when it was the active one
+   */
+  deleteProfile(profileName: string): { success: boolean; message: string; profile: string } {
+    const wasActive = profileName === this.currentProfile
+    const result = this.store.deleteProfile(profileName)
+    if (!result.success || !wasActive) {
+      return { ...result, profile: this.currentProfile }
+    }
+
+    const fallbackNote = this.currentCookies.length > 0
+      ? `Switched to profile "${this.currentProfile}". ⚠️ Session confirmation required for account-specific operations.`
+      : 'No other profile is available, use save-profile to create one.'
+    return { success: true, message: `${result.message} ${fallbackNote}`, profile: this.currentProfile }
+  }
+
+  /**
+   * Duplicate a profile in the store, reporting when it overwrote this session's active profile
+   */
+  copyProfile(
+    profileName: string,
+    newProfileName: string,
+    overwrite: boolean = false
+  ): { success: boolean; message: string; profile: string } {
+    const result = this.store.copyProfile(profileName, newProfileName, overwrite)
+    if (result.success && newProfileName === this.currentProfile) {
+      return {
+        success: true,
+        message: `Profile "${profileName}" copied over the active profile "${newProfileName}". ⚠️ Session confirmation required for account-specific operations.`,
+        profile: this.currentProfile,
+      }
+    }
+    return { ...result, profile: this.currentProfile }
+  }
+
+  // ##########
+  // Updates from the profile store, called for the sessions whose active profile changed
+  // ##########
+
+  /**
+   * The active profile was deleted: drop its cookies and confirmation,
+   * then fall back to the default profile, or the first remaining profile
+   */
+  handleProfileDeleted(): void {
+    this.resetSessionConfirmation()
+    this.currentCookies = []
+    this.currentSettings = {}
+
+    const remaining = this.store.listProfiles().filter(p => !p.error)
+    const fallback = remaining.find(p => p.name === serverConfig.defaultProfile) ?? remaining[0]
+    if (!fallback || !this.loadProfile(fallback.name).success) {
+      this.currentProfile = serverConfig.defaultProfile
+    }
+  }
+
+  /**
+   * The active profile was renamed: keep it active and keep the session confirmation
+   */
+  handleProfileRenamed(newProfileName: string): void {
+    this.currentProfile = newProfileName
+  }
+
+  /**
+   * The active profile's files changed: reload them. The confirmation is dropped when the cookies
+   * were replaced (possibly by another account's), and kept when they were only rotated or the settings changed.
+   */
+  handleProfileChanged(replaced: boolean): void {
+    if (replaced) {
+      this.resetSessionConfirmation()
+    }
+    const result = this.loadProfile(this.currentProfile)
+    if (!result.success) {
+      console.error(`[WARN] Failed to reload profile ${this.currentProfile}: ${result.message}`)
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { z } from 'zod'
+import { profileManager } from './config.js'
+
+/**
+ * Optional profile argument, completed with the saved profile names
+ */
+function profileArgument(): z.ZodOptional<z.ZodString> {
+  const argument = completable(
+    z
+      .string()
+      .optional()
+      .describe('The profile to use (defaults to the active profile)'),
+    value =>
+      profileManager
+        .listProfiles()
+        .map(profile => profile.name)
+        .filter(name => name.startsWith(value ?? ''))
+  )
+  // The SDK only completes arguments whose schema is a Completable, but its prompt arguments type
+  // does not accept an optional Completable: it parses exactly like the optional string it wraps
+  return argument as unknown as z.ZodOptional<z.ZodString>
+}
+
+/**
+ * Describe which profile to confirm, for the prompts working on account data
+ */
+function describeProfile(profile: string | undefined): string {
+  if (profile) {
+    return `the "${profile}" profile (pass profile "${profile}" to confirm-profile)`
+  }
+  return 'the active profile (check it with get-current-profile)'
+}
+
+/**
+ * Build a prompt result made of a single user message
+ */
+function promptMessage(description: string, text: string) {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text,
+        },
+      },
+    ],
+  }
+}
+
+/**
+ * Register the prompts encoding the recommended sequence of tools for the common shopping workflows,
+ * so every client follows the same safe behavior
+ */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    'compare-products',
+    {
+      title: 'Compare products for a need',
+      description: 'Search Amazon for products matching a need and compare the best candidates side by side',
+      argsSchema: {
+        need: z.string().describe('What the product is for, e.g. "a quiet mechanical keyboard for the office"'),
+        budget: z.string().optional().describe('Optional: the maximum price, e.g. "100 EUR"'),
+        count: z.string().optional().describe('Optional: how many products to compare (default 3)'),
+      },
+    },
+    ({ need, budget, count }) => {
+      const budgetNote = budget ? ` My budget is ${budget}, leave out the products above it.` : ''
+      return promptMessage(
+        `Compare products for: ${need}`,
+        [
+          `I need ${need}.${budgetNote} Help me choose by comparing the ${count || '3'} best products on Amazon.`,
+          '',
+          'Follow these steps:',
+          '1. Call search-products with one or two short search terms describing the need. Ignore sponsored results unless they are clearly relevant.',
+          '2. Pick the most relevant candidates and call get-product-details for each of them.',
+          '3. Present a comparison table: title, price, rating and number of reviews, Prime eligibility and the key differences from the descriptions.',
+          '4. Recommend one product and explain why, then list the product links.',
+          '',
+          'Do not add anything to the cart. If I want to buy one, I will ask for it.',
+        ].join('\n')
+      )
+    }
+  )
+
+  server.registerPrompt(
+    'reorder',
+    {
+      title: 'Reorder from a past order',
+      description: 'Find a past order and add the same products to the cart again, after confirmation',
+      argsSchema: {
+        order: z
+          .string()
+          .optional()
+          .describe('Optional: the order number (e.g. "123-4567890-1234567") or a description of the order (e.g. "the coffee from last month")'),
+        profile: profileArgument(),
+      },
+    },
+    ({ order, profile }) => {
+      const orderNote = order ? `the order matching "${order}"` : 'my most recent order'
+      return promptMessage(
+        `Reorder ${orderNote}`,
+        [
+          `I want to reorder ${orderNote} with ${describeProfile(profile)}.`,
+          '',
+          'Follow these steps:',
+          '1. Tell me which profile and account will be used and wait for my agreement.',
+          '2. Call confirm-profile with scope "read", then get-orders-history and find the order. If several orders match, ask me which one.',
+          '3. List the items of the order. Call get-product-details for each one to check it is still available and show its current price.',
+          '4. Ask me which items to reorder. Do not continue without my answer.',
+          '5. Call get-cart-content. If the cart already contains other items, tell me and ask whether to keep them.',
+          '6. Call confirm-profile with scope "cart", then add-to-cart for each item I chose.',
+          '7. Call get-cart-content again and show me the final cart and subtotal.',
+          '',
+          'Never call perform-purchase in this workflow. Use the safe-checkout prompt to buy.',
+        ].join('\n')
+      )
+    }
+  )
+
+  server.registerPrompt(
+    'safe-checkout',
+    {
+      title: 'Safe checkout',
+      description: 'Check the cart contains exactly the intended items, then purchase after an explicit confirmation',
+      argsSchema: {
+        items: z.string().optional().describe('Optional: the items I intend to buy, e.g. "2x B0B15FKR8T, the USB-C charger"'),
+        profile: profileArgument(),
+      },
+    },
+    ({ items, profile }) => {
+      const itemsNote = items ? `I intend to buy: ${items}.` : 'I intend to buy the items I added to the cart in this conversation.'
+      return promptMessage(
+        'Safe checkout',
+        [
+          `I want to check out with ${describeProfile(profile)}. ${itemsNote}`,
+          '',
+          'Follow these steps:',
+          '1. Tell me which profile and account will be used and wait for my agreement.',
+          '2. Call confirm-profile with scope "cart", then get-cart-content.',
+          '3. Compare the cart with the items I intend to buy. If it contains other products, or different quantities, ' +
+            'call clear-cart then add-to-cart for each intended item, and call get-cart-content again.',
+          '4. Show me the final cart: every item with its quantity and price, and the subtotal. Ask me to explicitly confirm the purchase.',
+          '5. Only after my explicit confirmation, call confirm-profile with scope "purchase" and then perform-purchase once.',
+          '6. Call get-orders-history and show me the new order.',
+          '',
+          'If any step fails or the cart does not match, stop and ask me. Never retry perform-purchase on your own.',
+        ].join('\n')
+      )
+    }
+  )
+
+  server.registerPrompt(
+    'audit-cart',
+    {
+      title: 'Audit my cart',
+      description: 'Review the cart for unavailable items, duplicates, unusual quantities and prices',
+      argsSchema: {
+        focus: z.string().optional().describe('Optional: what to pay attention to, e.g. "cheaper alternatives" or "delivery dates"'),
+        profile: profileArgument(),
+      },
+    },
+    ({ focus, profile }) => {
+      const focusNote = focus ? ` Pay special attention to ${focus}.` : ''
+      return promptMessage(
+        'Audit my cart',
+        [
+          `Review the Amazon cart of ${describeProfile(profile)}.${focusNote}`,
+          '',
+          'Follow these steps:',
+          '1. Tell me which profile and account will be used and wait for my agreement.',
+          '2. Call confirm-profile with scope "read", then get-cart-content.',
+          '3. Call get-product-details for the items that need a closer look.',
+          '4. Report: unavailable or unselected items, duplicates, unusual quantities, items I already ordered recently ' +
+            '(check get-orders-history) and the subtotal.',
+          '5. Suggest changes, with the product links.',
+          '',
+          'This is a read-only review: do not call add-to-cart, clear-cart or perform-purchase.',
+        ].join('\n')
+      )
+    }
+  )
+}
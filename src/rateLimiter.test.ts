@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from './config.js'
+import { getRetryDelay, RateLimiter } from './rateLimiter.js'
+
+// The waits end right away, moving the clock forward as if they had elapsed
+const delay = vi.hoisted(() =>
+  vi.fn(async (waitMs: number) => {
+    await Promise.resolve()
+    vi.setSystemTime(Date.now() + waitMs)
+  })
+)
+vi.mock('timers/promises', () => ({ setTimeout: delay }))
+
+const KEY = 'test@amazon.com'
+const NOW = new Date('2026-01-01T00:00:00Z').getTime()
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    delay.mockClear()
+  })
+
+  /** The waits requested by the limiter, in call order */
+  const waits = () => delay.mock.calls.map(([waitMs]) => waitMs)
+
+  test('spaces out the requests of a key by the minimum interval', async () => {
+    const limiter = new RateLimiter(2000, 20)
+
+    await Promise.all([limiter.acquire(KEY), limiter.acquire(KEY), limiter.acquire(KEY)])
+
+    expect(waits()).toEqual([2000, 4000])
+  })
+
+  test('does not delay the requests of another key', async () => {
+    const limiter = new RateLimiter(2000, 20)
+
+    await limiter.acquire(KEY)
+    await limiter.acquire('other@amazon.com')
+
+    expect(waits()).toEqual([])
+  })
+
+  test('waits a minute after the oldest request once the requests per minute are used up', async () => {
+    const limiter = new RateLimiter(1000, 2)
+
+    await limiter.acquire(KEY)
+    await limiter.acquire(KEY)
+    await limiter.acquire(KEY)
+
+    expect(waits()).toEqual([1000, 59000])
+  })
+
+  test('forgets the requests older than a minute', async () => {
+    const limiter = new RateLimiter(1000, 2)
+
+    await limiter.acquire(KEY)
+    vi.setSystemTime(NOW + 61000)
+    await limiter.acquire(KEY)
+    await limiter.acquire(KEY)
+
+    expect(waits()).toEqual([1000])
+  })
+
+  test('frees the slot of a request cancelled while it waits', async () => {
+    const limiter = new RateLimiter(1000, 2)
+
+    await limiter.acquire(KEY)
+    await limiter.acquire(KEY)
+    // The client cancels the third request during its wait
+    delay.mockRejectedValueOnce(new Error('The operation was aborted'))
+    await expect(limiter.acquire(KEY, AbortSignal.abort())).rejects.toThrow('aborted')
+    await limiter.acquire(KEY)
+
+    // The last request takes the place of the cancelled one instead of waiting behind it
+    expect(waits()).toEqual([1000, 59000, 59000])
+  })
+})
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('backs off exponentially with a jitter of up to half the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect([1, 2, 3].map(getRetryDelay)).toEqual([RETRY_BASE_DELAY_MS / 2, RETRY_BASE_DELAY_MS, RETRY_BASE_DELAY_MS * 2])
+
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    expect([1, 2, 3].map(getRetryDelay)).toEqual([RETRY_BASE_DELAY_MS, RETRY_BASE_DELAY_MS * 2, RETRY_BASE_DELAY_MS * 4])
+  })
+
+  test('never waits longer than the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    expect(getRetryDelay(20)).toBe(RETRY_MAX_DELAY_MS)
+  })
+})
@@ -0,0 +1,69 @@
+import { setTimeout as delay } from 'timers/promises'
+import { MAX_REQUESTS_PER_MINUTE, MIN_REQUEST_INTERVAL_MS, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from './config.js'
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Spaces out the requests sent to Amazon for each profile and marketplace, so a burst of tool calls
+ * does not look like a robot
+ * - Two requests are at least `minRequestIntervalMs` apart
+ * - At most `maxRequestsPerMinute` requests start within any minute
+ */
+export class RateLimiter {
+  private minIntervalMs: number
+  private maxRequestsPerMinute: number
+  /** Start times of the recent and scheduled requests of each key, in order */
+  private schedules = new Map<string, number[]>()
+
+  constructor(minIntervalMs: number, maxRequestsPerMinute: number) {
+    this.minIntervalMs = minIntervalMs
+    this.maxRequestsPerMinute = maxRequestsPerMinute
+  }
+
+  /**
+   * Wait for the turn of a request. The slot is reserved right away, so concurrent requests queue up in call order.
+   *
+   * @param key the profile and marketplace the request is sent for, e.g. "personal@amazon.de"
+   * @param signal interrupts the wait, e.g. when the client cancels the request
+   */
+  async acquire(key: string, signal?: AbortSignal): Promise<void> {
+    const now = Date.now()
+    const schedule = (this.schedules.get(key) ?? []).filter(startTime => startTime > now - MINUTE_MS)
+
+    let startTime = Math.max(now, (schedule.at(-1) ?? 0) + this.minIntervalMs)
+    if (schedule.length >= this.maxRequestsPerMinute) {
+      startTime = Math.max(startTime, schedule[schedule.length - this.maxRequestsPerMinute] + MINUTE_MS)
+    }
+    schedule.push(startTime)
+    this.schedules.set(key, schedule)
+
+    const waitMs = startTime - now
+    if (waitMs > 0) {
+      console.error(`[INFO] Rate limiting the requests of ${key}, waiting ${waitMs} ms`)
+      try {
+        await delay(waitMs, undefined, { signal })
+      } catch (error) {
+        // A cancelled request never runs, it must not push back the next ones or use up the requests per minute
+        const currentSchedule = this.schedules.get(key) ?? []
+        const index = currentSchedule.indexOf(startTime)
+        if (index !== -1) {
+          currentSchedule.splice(index, 1)
+        }
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Get the delay before retrying a request: exponential backoff from `retryBaseDelayMs`, capped at `retryMaxDelayMs`,
+ * with a random jitter so concurrent retries do not fire together
+ *
+ * @param attempt the attempt that failed, starting at 1
+ */
+export function getRetryDelay(attempt: number): number {
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2))
+}
+
+export const rateLimiter = new RateLimiter(MIN_REQUEST_INTERVAL_MS, MAX_REQUESTS_PER_MINUTE)
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { ProfileSession } from './profileSession.js'
+
+/**
+ * State of the MCP client a tool call is running for, available anywhere down the call chain
+ * (scrapers, browser helpers) without threading it through every function
+ */
+export interface RequestContext {
+  session: ProfileSession
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal
+  /** Send a progress notification to the client, set when the client asked for progress */
+  onProgress?: (progress: number, total: number | undefined, message: string) => Promise<void>
+  /** Send a log message notification about the request to the client, unless its logging level is above `info` */
+  onLog?: (message: string) => Promise<void>
+}
+
+/** Request information the SDK passes to the tool, resource and prompt handlers */
+export type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Build the context of an MCP request of a client session, from the extra the SDK passes to the handlers
+ */
+export function createRequestContext(session: ProfileSession, extra: RequestExtra): RequestContext {
+  const progressToken = extra._meta?.progressToken
+  return {
+    session,
+    signal: extra.signal,
+    onProgress:
+      progressToken === undefined
+        ? undefined
+        : (progress, total, message) =>
+            extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, total, message } }),
+    onLog: async message => {
+      if (session.isLogLevelEnabled('info')) {
+        await extra.sendNotification({ method: 'notifications/message', params: { level: 'info', logger: 'amazon', data: message } })
+      }
+    },
+  }
+}
+
+/**
+ * Run a function with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContextStorage.run(context, fn)
+}
+
+/**
+ * Get the context of the current request, undefined outside of a tool call
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore()
+}
+
+/**
+ * Report the progress of the current request, if the client asked for progress notifications.
+ * A failure to notify the client never interrupts the operation.
+ */
+export async function reportProgress(progress: number, total: number | undefined, message: string): Promise<void> {
+  const onProgress = getRequestContext()?.onProgress
+  if (!onProgress) {
+    return
+  }
+  try {
+    await onProgress(progress, total, message)
+  } catch (error: any) {
+    console.error(`[WARN] Failed to send progress notification: ${error.message}`)
+  }
+}
+
+/**
+ * Tell the client about the state of the current request without advancing its progress, e.g. while it waits for its turn.
+ * A failure to notify the client never interrupts the operation.
+ */
+export async function reportStatus(message: string): Promise<void> {
+  const onLog = getRequestContext()?.onLog
+  if (!onLog) {
+    return
+  }
+  try {
+    await onLog(message)
+  } catch (error: any) {
+    console.error(`[WARN] Failed to send log notification: ${error.message}`)
+  }
+}
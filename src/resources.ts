@@ -0,0 +1,200 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { getCartContent } from './cart.js'
+import { profileManager } from './config.js'
+import { getOrdersHistory } from './orders.js'
+import { getProductDetails } from './products.js'
+import type { ProfileSession } from './profileSession.js'
+import { createRequestContext, runWithRequestContext } from './requestContext.js'
+
+export interface AmazonResources {
+  /** Notify every client subscribed to the cart of a profile that it changed, not only the one that changed it */
+  notifyCartUpdated(profile: string): Promise<void>
+  /** Stop notifying the client, once its session is closed */
+  close(): void
+}
+
+interface ResourceSubscriber {
+  server: McpServer
+  subscriptions: Set<string>
+}
+
+/** The resource subscriptions of every connected client, a cart is shared by all the sessions using its profile */
+const subscribers = new Set<ResourceSubscriber>()
+
+/**
+ * Get the URI of the cart resource of a profile
+ */
+export function getCartResourceUri(profile: string): string {
+  return `amazon://${profile}/cart`
+}
+
+/**
+ * Serialize resource data as a JSON resource content
+ */
+function jsonContent(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  }
+}
+
+/**
+ * Get the value of a URI template variable
+ */
+function getVariable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Account resources follow the same rules as the account tools: they can only be read
+ * for the active profile of the session, once the session is confirmed for reading
+ */
+function assertCanReadAccount(session: ProfileSession, profile: string): void {
+  if (profile !== session.getCurrentProfile()) {
+    throw new Error(
+      `The resource belongs to profile "${profile}" but the active profile is "${session.getCurrentProfile()}". Switch to it with confirm-profile first.`
+    )
+  }
+  if (!session.isSessionConfirmed('read')) {
+    throw new Error(session.getConfirmationPrompt('read'))
+  }
+}
+
+/**
+ * Register the profiles, cart, orders and product resources of a client session
+ */
+export function registerResources(server: McpServer, session: ProfileSession): AmazonResources {
+  const subscriptions = new Set<string>()
+  const subscriber: ResourceSubscriber = { server, subscriptions }
+  subscribers.add(subscriber)
+  const completeProfile = (value: string) =>
+    profileManager
+      .listProfiles()
+      .map(profile => profile.name)
+      .filter(name => name.startsWith(value))
+
+  server.registerResource(
+    'profiles',
+    'amazon://profiles',
+    {
+      description: 'All Amazon account profiles with their settings and cookie health, and the active profile of this session',
+      mimeType: 'application/json',
+    },
+    async uri =>
+      jsonContent(uri, {
+        activeProfile: session.getCurrentProfile(),
+        profiles: profileManager.listProfiles(),
+      })
+  )
+
+  server.registerResource(
+    'cart',
+    new ResourceTemplate('amazon://{profile}/cart', {
+      list: async () => ({
+        resources: [{ uri: getCartResourceUri(session.getCurrentProfile()), name: `Cart of ${session.getCurrentProfile()}` }],
+      }),
+      complete: { profile: completeProfile },
+    }),
+    {
+      description: 'The cart content of a profile (requires a session confirmation for the active profile)',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      const profile = getVariable(variables, 'profile')
+      assertCanReadAccount(session, profile)
+      return jsonContent(uri, await runWithRequestContext(createRequestContext(session, extra), () => getCartContent()))
+    }
+  )
+
+  server.registerResource(
+    'orders',
+    new ResourceTemplate('amazon://{profile}/orders', {
+      list: async () => ({
+        resources: [{ uri: `amazon://${session.getCurrentProfile()}/orders`, name: `Orders of ${session.getCurrentProfile()}` }],
+      }),
+      complete: { profile: completeProfile },
+    }),
+    {
+      description: 'The orders history of a profile (requires a session confirmation for the active profile)',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      const profile = getVariable(variables, 'profile')
+      assertCanReadAccount(session, profile)
+      return jsonContent(uri, await runWithRequestContext(createRequestContext(session, extra), () => getOrdersHistory()))
+    }
+  )
+
+  server.registerResource(
+    'order',
+    new ResourceTemplate('amazon://{profile}/orders/{orderNumber}', {
+      list: undefined,
+      complete: { profile: completeProfile },
+    }),
+    {
+      description: 'A single order of a profile, by order number like "123-4567890-1234567" (requires a session confirmation for the active profile)',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      const profile = getVariable(variables, 'profile')
+      const orderNumber = getVariable(variables, 'orderNumber')
+      assertCanReadAccount(session, profile)
+      const orders = await runWithRequestContext(createRequestContext(session, extra), () => getOrdersHistory())
+      const order = orders.find(order => order.orderInfo.orderNumber === orderNumber)
+      if (!order) {
+        throw new Error(`Order ${orderNumber} not found in the orders history of profile "${profile}"`)
+      }
+      return jsonContent(uri, order)
+    }
+  )
+
+  server.registerResource(
+    'product',
+    new ResourceTemplate('amazon://product/{asin}', { list: undefined }),
+    {
+      description: 'The details of a product by ASIN',
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      const asin = getVariable(variables, 'asin')
+      const { data } = await runWithRequestContext(createRequestContext(session, extra), () => getProductDetails(asin))
+      return jsonContent(uri, data)
+    }
+  )
+
+  // Clients can subscribe to a resource to be notified when it changes, e.g. the cart after add-to-cart
+  server.server.registerCapabilities({ resources: { subscribe: true } })
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri)
+    return {}
+  })
+
+  return {
+    async notifyCartUpdated(profile: string) {
+      const uri = getCartResourceUri(profile)
+      const notified = [...subscribers].filter(({ subscriptions }) => subscriptions.has(uri))
+      await Promise.all(
+        notified.map(({ server }) =>
+          // The cart did change: a client that cannot be told must not fail the tool call of another one
+          server.server.sendResourceUpdated({ uri }).catch(error => {
+            console.error(`[WARN][resources] Failed to notify a client that ${uri} changed: ${error.message}`)
+          })
+        )
+      )
+    },
+    close() {
+      subscribers.delete(subscriber)
+    },
+  }
+}
@@ -0,0 +1,148 @@
+import fs from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { afterAll, afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { extractCartPageData } from './cart.js'
+import { MOCKS_DIR, profileManager } from './config.js'
+import { extractSearchResultsPageData } from './products.js'
+import type { ProfileSession } from './profileSession.js'
+import { createRequestContext, RequestExtra } from './requestContext.js'
+import { createServer } from './server.js'
+
+const PROFILE = 'test-profile'
+
+let client: Client
+
+/**
+ * Connect a client to a new server instance in the same process, as a separate MCP client session
+ */
+async function connectClient(session?: ProfileSession): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await createServer(session).connect(serverTransport)
+  const newClient = new Client({ name: 'test-client', version: '1.0.0' })
+  await newClient.connect(clientTransport)
+  return newClient
+}
+
+/**
+ * Call a tool, with the text of its result for the assertions on the summary or the error
+ */
+async function callTool(name: string, args: Record<string, unknown> = {}, toolClient = client) {
+  const result = (await toolClient.callTool({ name, arguments: args })) as CallToolResult
+  const text = result.content.find(content => content.type === 'text')?.text ?? ''
+  return { ...result, text }
+}
+
+beforeEach(async () => {
+  client = await connectClient()
+})
+
+afterEach(async () => {
+  await client.close()
+})
+
+afterAll(() => {
+  profileManager.deleteProfile(PROFILE)
+})
+
+describe('server tools', () => {
+  test('registers the tools of every category', async () => {
+    const { tools } = await client.listTools()
+    const names = tools.map(tool => tool.name)
+
+    expect(names).toEqual(
+      expect.arrayContaining(['list-profiles', 'save-profile', 'confirm-profile', 'search-products', 'get-cart-content', 'perform-purchase'])
+    )
+    tools.forEach(tool => expect(tool.outputSchema, tool.name).toBeDefined())
+  })
+
+  test('search-products returns the parsed results as structured content', async () => {
+    const result = await callTool('search-products', { searchTerm: 'collagen' })
+    const $ = cheerio.load(fs.readFileSync(path.join(MOCKS_DIR, 'searchProducts.html'), 'utf-8'))
+
+    expect(result.isError).toBeFalsy()
+    expect(result.structuredContent).toEqual({ searchTerm: 'collagen', results: extractSearchResultsPageData($, 'collagen') })
+    expect(result.text).toContain('Found 20 products for "collagen"')
+  })
+
+  test('get-product-details returns the details and the main image', async () => {
+    const result = await callTool('get-product-details', { asin: 'B0F2255HFW' })
+
+    expect(result.isError).toBeFalsy()
+    expect(result.structuredContent).toMatchObject({ product: { asin: 'B0F2255HFW', price: '€41.39' } })
+    expect(result.content).toContainEqual(expect.objectContaining({ type: 'image', mimeType: 'image/jpeg' }))
+  })
+})
+
+describe('client logging', () => {
+  test('sends the status messages of the requests only at the level the client set', async () => {
+    const session = profileManager.createSession()
+    const loggingClient = await connectClient(session)
+    const sendNotification = vi.fn(async () => {})
+    const context = createRequestContext(session, { signal: new AbortController().signal, sendNotification } as unknown as RequestExtra)
+
+    await context.onLog?.('Waiting for position 1 in the queue')
+    await loggingClient.setLoggingLevel('warning')
+    await context.onLog?.('Waiting for position 2 in the queue')
+    await loggingClient.setLoggingLevel('info')
+    await context.onLog?.('Waiting for position 3 in the queue')
+
+    expect(sendNotification).toHaveBeenCalledTimes(2)
+    expect(sendNotification).toHaveBeenLastCalledWith(expect.objectContaining({ params: expect.objectContaining({ level: 'info' }) }))
+    await loggingClient.close()
+  })
+})
+
+describe('profile confirmation gate', () => {
+  beforeEach(async () => {
+    const saved = await callTool('save-profile', {
+      profile: PROFILE,
+      cookies: 'session-id=123-4567890-1234567; ubid-main=133-1234567-7654321; at-main=Atza|test; x-main=test',
+      domain: 'amazon.com',
+    })
+    expect(saved.isError, saved.text).toBeFalsy()
+  })
+
+  test('get-cart-content asks to confirm the profile first', async () => {
+    const result = await callTool('get-cart-content')
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.text)).toMatchObject({ type: 'AMAZON_PROFILE_CONFIRMATION_REQUIRED', requiredScope: 'read' })
+    expect(result.structuredContent).toBeUndefined()
+  })
+
+  test('get-cart-content returns the cart once the profile is confirmed', async () => {
+    const confirmed = await callTool('confirm-profile', { profile: PROFILE, scope: 'read' })
+    expect(confirmed.isError, confirmed.text).toBeFalsy()
+
+    const result = await callTool('get-cart-content')
+    const $ = cheerio.load(fs.readFileSync(path.join(MOCKS_DIR, 'getCartContent.html'), 'utf-8'))
+
+    expect(result.isError, result.text).toBeFalsy()
+    expect(result.structuredContent).toEqual({ profile: PROFILE, cart: extractCartPageData($) })
+  })
+
+  test('a read confirmation does not allow changing the cart', async () => {
+    await callTool('confirm-profile', { profile: PROFILE, scope: 'read' })
+
+    const result = await callTool('clear-cart')
+    expect(result.isError).toBe(true)
+    expect(JSON.parse(result.text)).toMatchObject({ type: 'AMAZON_PROFILE_CONFIRMATION_REQUIRED', requiredScope: 'cart' })
+  })
+
+  test('the confirmation only applies to the session that gave it', async () => {
+    await callTool('confirm-profile', { profile: PROFILE, scope: 'read' })
+
+    const otherClient = await connectClient()
+    try {
+      const result = await callTool('get-orders-history', {}, otherClient)
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.text)).toMatchObject({ type: 'AMAZON_PROFILE_CONFIRMATION_REQUIRED', requiredScope: 'read' })
+    } finally {
+      await otherClient.close()
+    }
+  })
+})
@@ -0,0 +1,88 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+
+/**
+ * Load the configuration module again, the configuration is read once when it loads
+ */
+async function loadServerConfig() {
+  vi.resetModules()
+  return import('./serverConfig.js')
+}
+
+describe('server configuration', () => {
+  let dir: string
+  let configFile: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-amazon-config-'))
+    configFile = path.join(dir, 'config.json')
+    vi.stubEnv('AMAZON_MCP_CONFIG', configFile)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('environment variables override the configuration file, which overrides the defaults', async () => {
+    fs.writeFileSync(configFile, JSON.stringify({ navigationTimeoutMs: 45000, selectorTimeoutMs: 5000 }))
+    vi.stubEnv('AMAZON_MCP_SELECTOR_TIMEOUT_MS', '2000')
+
+    const { describeServerConfig } = await loadServerConfig()
+    const { configFile: loadedFile, values } = describeServerConfig()
+
+    expect(loadedFile).toBe(configFile)
+    expect(values.navigationTimeoutMs).toMatchObject({ value: 45000, source: 'file' })
+    expect(values.selectorTimeoutMs).toMatchObject({ value: 2000, source: 'env' })
+    expect(values.defaultProfile).toMatchObject({ value: 'personal', source: 'default' })
+  })
+
+  test('parses the booleans of environment variables', async () => {
+    fs.writeFileSync(configFile, '{}')
+    vi.stubEnv('AMAZON_MCP_BROWSER_VISIBLE', 'yes')
+    vi.stubEnv('AMAZON_MCP_USE_MOCKS', 'off')
+
+    const { serverConfig } = await loadServerConfig()
+
+    expect(serverConfig.browserVisible).toBe(true)
+    expect(serverConfig.useMocks).toBe(false)
+  })
+
+  test('parses the lists and JSON objects of environment variables', async () => {
+    fs.writeFileSync(configFile, '{}')
+    vi.stubEnv('AMAZON_MCP_BLOCKED_RESOURCES', 'image, font')
+    vi.stubEnv('AMAZON_MCP_RESOURCE_BLOCKING_OVERRIDES', '{ "add-to-cart": ["analytics"] }')
+
+    const { serverConfig } = await loadServerConfig()
+
+    expect(serverConfig.blockedResources).toEqual(['image', 'font'])
+    expect(serverConfig.resourceBlockingOverrides).toEqual({ 'add-to-cart': ['analytics'] })
+
+    vi.stubEnv('AMAZON_MCP_BLOCKED_RESOURCES', 'none')
+    expect((await loadServerConfig()).serverConfig.blockedResources).toEqual([])
+  })
+
+  test('reads the confirmation expiries from the AMAZON_MCP_ prefixed variables', async () => {
+    fs.writeFileSync(configFile, '{}')
+    vi.stubEnv('AMAZON_MCP_CONFIRMATION_TTL_READ', '60')
+    vi.stubEnv('AMAZON_MCP_CONFIRMATION_TTL_CART', '10')
+    vi.stubEnv('AMAZON_MCP_CONFIRMATION_TTL_PURCHASE', '2')
+
+    const { serverConfig } = await loadServerConfig()
+
+    expect(serverConfig).toMatchObject({ confirmationTtlReadMinutes: 60, confirmationTtlCartMinutes: 10, confirmationTtlPurchaseMinutes: 2 })
+  })
+
+  test('names the environment variable of an invalid value', async () => {
+    fs.writeFileSync(configFile, '{}')
+    vi.stubEnv('AMAZON_MCP_NAVIGATION_TIMEOUT_MS', 'soon')
+
+    await expect(loadServerConfig()).rejects.toThrow('(from AMAZON_MCP_NAVIGATION_TIMEOUT_MS)')
+  })
+
+  test('refuses a configuration file that does not exist', async () => {
+    await expect(loadServerConfig()).rejects.toThrow('does not exist')
+  })
+})
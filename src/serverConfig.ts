@@ -0,0 +1,283 @@
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+
+const __dirname = new URL('.', import.meta.url).pathname
+
+/** Root of the project, relative paths in the configuration are resolved from here */
+export const PROJECT_ROOT = path.join(__dirname, '..')
+
+/** Environment variable holding the path to the configuration file */
+export const CONFIG_FILE_ENV = 'AMAZON_MCP_CONFIG'
+
+/** Configuration file loaded when CONFIG_FILE_ENV is not set */
+const DEFAULT_CONFIG_FILE = path.join(PROJECT_ROOT, 'mcp-server-amazon.config.json')
+
+/**
+ * Resources a page can skip loading while scraping
+ * - `image`, `media`, `font`, `stylesheet`: by request resource type
+ * - `analytics`: third-party analytics and ad trackers
+ */
+export const BLOCKABLE_RESOURCES = ['image', 'media', 'font', 'stylesheet', 'analytics'] as const
+
+export type BlockableResource = (typeof BLOCKABLE_RESOURCES)[number]
+
+/** Tools able to load their page with a plain HTTP request instead of the browser */
+export const FETCHABLE_TOOLS = ['search-products', 'get-product-details'] as const
+
+export type FetchableTool = (typeof FETCHABLE_TOOLS)[number]
+
+const ServerConfigSchema = z
+  .object({
+    /** Show the Chromium window while scraping */
+    browserVisible: z.boolean(),
+    /** Use local mock files instead of live scraping */
+    useMocks: z.boolean(),
+    /** Export live scraping HTML to mocks for future use */
+    exportLiveScrapingForMocks: z.boolean(),
+    profilesDir: z.string().min(1),
+    mocksDir: z.string().min(1),
+    /** Save a screenshot of the CAPTCHA and verification pages Amazon serves instead of the requested page */
+    saveChallengeScreenshots: z.boolean(),
+    screenshotsDir: z.string().min(1),
+    /**
+     * Save a debug bundle (screenshot, HTML, URL, console messages, failed requests) of the page a scraping operation failed on.
+     * Off by default: the cart, orders and address pages show personal data.
+     */
+    captureDebugArtifacts: z.boolean(),
+    debugArtifactsDir: z.string().min(1),
+    /** Number of debug bundles kept, the oldest ones are deleted */
+    debugArtifactsMaxBundles: z.number().int().positive(),
+    /** Debug bundles older than this are deleted */
+    debugArtifactsMaxAgeDays: z.number().positive(),
+    navigationTimeoutMs: z.number().int().positive(),
+    selectorTimeoutMs: z.number().int().positive(),
+    /** Path of the Chromium executable, "auto" to use the build downloaded by Puppeteer or a common install location */
+    chromiumPath: z.string().min(1),
+    /** Extra command line arguments of Chromium */
+    browserArgs: z.array(z.string().regex(/^--/, 'Browser arguments must start with "--"')),
+    /** Close the browser context of a profile after this long without operations, and the browser once no context is left */
+    browserIdleTimeoutMs: z.number().int().positive(),
+    /** Maximum number of pages open at once across all profiles, the next operations wait for a free page */
+    maxBrowserPages: z.number().int().positive(),
+    /** Resources not loaded by the read-only tools, which only parse the HTML */
+    blockedResources: z.array(z.enum(BLOCKABLE_RESOURCES)),
+    /** Resources blocked by specific tools, replacing their default, e.g. `{ "add-to-cart": ["analytics"] }` */
+    resourceBlockingOverrides: z.record(z.array(z.enum(BLOCKABLE_RESOURCES))),
+    /** Minimum time between two requests to Amazon for the same profile and marketplace */
+    minRequestIntervalMs: z.number().int().min(0),
+    /** Maximum number of requests to Amazon per minute for the same profile and marketplace */
+    maxRequestsPerMinute: z.number().int().positive(),
+    /** Attempts of a page load failing with a navigation timeout or an Amazon error page, the first one included */
+    retryMaxAttempts: z.number().int().positive(),
+    /** Delay before the first retry, doubled for each next one up to `retryMaxDelayMs` */
+    retryBaseDelayMs: z.number().int().min(0),
+    retryMaxDelayMs: z.number().int().min(0),
+    /** Tools fetching their page over HTTP, falling back to the browser when the fetched HTML is not usable */
+    httpFetchTools: z.array(z.enum(FETCHABLE_TOOLS)),
+    defaultProfile: z.string().regex(/^[a-z0-9-]+$/, 'Profile names must be lowercase alphanumeric with hyphens only'),
+    /** Maximum time-to-live of a session confirmation per scope, in minutes */
+    confirmationTtlReadMinutes: z.number().positive(),
+    confirmationTtlCartMinutes: z.number().positive(),
+    confirmationTtlPurchaseMinutes: z.number().positive(),
+    /** `stdio` for a single client spawning the server, `http` for a shared server (Streamable HTTP and legacy SSE) */
+    transport: z.enum(['stdio', 'http']),
+    httpHost: z.string().min(1),
+    httpPort: z.number().int().min(1).max(65535),
+    /** Time without any request after which an HTTP client session is closed */
+    httpSessionIdleTimeoutMs: z.number().int().positive(),
+  })
+  .strict()
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>
+
+export type ConfigSource = 'default' | 'file' | 'env'
+
+const DEFAULT_CONFIG: ServerConfig = {
+  browserVisible: false,
+  useMocks: false,
+  exportLiveScrapingForMocks: true,
+  profilesDir: 'profiles',
+  mocksDir: 'mocks',
+  saveChallengeScreenshots: false,
+  screenshotsDir: 'screenshots',
+  captureDebugArtifacts: false,
+  debugArtifactsDir: 'debug-artifacts',
+  debugArtifactsMaxBundles: 20,
+  debugArtifactsMaxAgeDays: 7,
+  navigationTimeoutMs: 30000,
+  selectorTimeoutMs: 10000,
+  chromiumPath: 'auto',
+  browserArgs: [],
+  browserIdleTimeoutMs: 5 * 60 * 1000,
+  maxBrowserPages: 4,
+  blockedResources: ['image', 'media', 'font', 'analytics'],
+  resourceBlockingOverrides: {},
+  httpFetchTools: ['search-products', 'get-product-details'],
+  minRequestIntervalMs: 2000,
+  maxRequestsPerMinute: 20,
+  retryMaxAttempts: 3,
+  retryBaseDelayMs: 2000,
+  retryMaxDelayMs: 30000,
+  defaultProfile: 'personal',
+  confirmationTtlReadMinutes: 8 * 60,
+  confirmationTtlCartMinutes: 30,
+  confirmationTtlPurchaseMinutes: 5,
+  transport: 'stdio',
+  httpHost: '127.0.0.1',
+  httpPort: 3000,
+  httpSessionIdleTimeoutMs: 30 * 60 * 1000,
+}
+
+/** Environment variable overriding each configuration key */
+export const CONFIG_ENV_VARS: Record<keyof ServerConfig, string> = {
+  browserVisible: 'AMAZON_MCP_BROWSER_VISIBLE',
+  useMocks: 'AMAZON_MCP_USE_MOCKS',
+  exportLiveScrapingForMocks: 'AMAZON_MCP_EXPORT_MOCKS',
+  profilesDir: 'AMAZON_MCP_PROFILES_DIR',
+  mocksDir: 'AMAZON_MCP_MOCKS_DIR',
+  saveChallengeScreenshots: 'AMAZON_MCP_SAVE_CHALLENGE_SCREENSHOTS',
+  screenshotsDir: 'AMAZON_MCP_SCREENSHOTS_DIR',
+  captureDebugArtifacts: 'AMAZON_MCP_CAPTURE_DEBUG_ARTIFACTS',
+  debugArtifactsDir: 'AMAZON_MCP_DEBUG_ARTIFACTS_DIR',
+  debugArtifactsMaxBundles: 'AMAZON_MCP_DEBUG_ARTIFACTS_MAX_BUNDLES',
+  debugArtifactsMaxAgeDays: 'AMAZON_MCP_DEBUG_ARTIFACTS_MAX_AGE_DAYS',
+  navigationTimeoutMs: 'AMAZON_MCP_NAVIGATION_TIMEOUT_MS',
+  selectorTimeoutMs: 'AMAZON_MCP_SELECTOR_TIMEOUT_MS',
+  chromiumPath: 'PUPPETEER_EXECUTABLE_PATH',
+  browserArgs: 'AMAZON_MCP_BROWSER_ARGS',
+  browserIdleTimeoutMs: 'AMAZON_MCP_BROWSER_IDLE_TIMEOUT_MS',
+  maxBrowserPages: 'AMAZON_MCP_MAX_BROWSER_PAGES',
+  blockedResources: 'AMAZON_MCP_BLOCKED_RESOURCES',
+  resourceBlockingOverrides: 'AMAZON_MCP_RESOURCE_BLOCKING_OVERRIDES',
+  httpFetchTools: 'AMAZON_MCP_HTTP_FETCH_TOOLS',
+  minRequestIntervalMs: 'AMAZON_MCP_MIN_REQUEST_INTERVAL_MS',
+  maxRequestsPerMinute: 'AMAZON_MCP_MAX_REQUESTS_PER_MINUTE',
+  retryMaxAttempts: 'AMAZON_MCP_RETRY_MAX_ATTEMPTS',
+  retryBaseDelayMs: 'AMAZON_MCP_RETRY_BASE_DELAY_MS',
+  retryMaxDelayMs: 'AMAZON_MCP_RETRY_MAX_DELAY_MS',
+  defaultProfile: 'AMAZON_MCP_DEFAULT_PROFILE',
+  confirmationTtlReadMinutes: 'AMAZON_MCP_CONFIRMATION_TTL_READ',
+  confirmationTtlCartMinutes: 'AMAZON_MCP_CONFIRMATION_TTL_CART',
+  confirmationTtlPurchaseMinutes: 'AMAZON_MCP_CONFIRMATION_TTL_PURCHASE',
+  transport: 'AMAZON_MCP_TRANSPORT',
+  httpHost: 'AMAZON_MCP_HTTP_HOST',
+  httpPort: 'AMAZON_MCP_HTTP_PORT',
+  httpSessionIdleTimeoutMs: 'AMAZON_MCP_HTTP_SESSION_IDLE_TIMEOUT_MS',
+}
+
+/** Environment variable holding the bearer token required by the HTTP transport (kept out of the configuration file) */
+export const AUTH_TOKEN_ENV = 'AMAZON_MCP_AUTH_TOKEN'
+
+/**
+ * Convert an environment variable string to the type of the configuration key's default value
+ */
+function parseEnvValue(key: keyof ServerConfig, raw: string): unknown {
+  const defaultValue = DEFAULT_CONFIG[key]
+  if (typeof defaultValue === 'boolean') {
+    if (/^(1|true|yes|on)$/i.test(raw)) return true
+    if (/^(0|false|no|off)$/i.test(raw)) return false
+    return raw
+  }
+  if (typeof defaultValue === 'number') {
+    return raw.trim() === '' ? raw : Number(raw)
+  }
+  // Lists are comma-separated, `none` for an empty list
+  if (Array.isArray(defaultValue)) {
+    return raw.trim() === 'none' ? [] : raw.split(',').map(item => item.trim())
+  }
+  // Objects are JSON
+  if (typeof defaultValue === 'object') {
+    try {
+      return JSON.parse(raw)
+    } catch {
+      return raw
+    }
+  }
+  return raw
+}
+
+/**
+ * Load the configuration: defaults, overridden by the configuration file, overridden by environment variables.
+ * Throws a descriptive error when a value is invalid.
+ */
+function loadServerConfig(): { config: ServerConfig; sources: Record<keyof ServerConfig, ConfigSource>; configFile: string | null } {
+  const values: Record<string, unknown> = { ...DEFAULT_CONFIG }
+  const sources = Object.fromEntries(Object.keys(DEFAULT_CONFIG).map(key => [key, 'default'])) as Record<keyof ServerConfig, ConfigSource>
+
+  // Configuration file
+  const configFile = process.env[CONFIG_FILE_ENV] ? path.resolve(process.env[CONFIG_FILE_ENV]) : DEFAULT_CONFIG_FILE
+  const configFileExists = fs.existsSync(configFile)
+  if (process.env[CONFIG_FILE_ENV] && !configFileExists) {
+    throw new Error(`Configuration file ${configFile} (${CONFIG_FILE_ENV}) does not exist`)
+  }
+  if (configFileExists) {
+    let fileValues: Record<string, unknown>
+    try {
+      fileValues = JSON.parse(fs.readFileSync(configFile, 'utf-8'))
+    } catch (error: any) {
+      throw new Error(`Could not parse configuration file ${configFile}: ${error.message}`)
+    }
+    for (const [key, value] of Object.entries(fileValues)) {
+      values[key] = value
+      sources[key as keyof ServerConfig] = 'file'
+    }
+  }
+
+  // Environment variables
+  for (const [key, envVar] of Object.entries(CONFIG_ENV_VARS) as [keyof ServerConfig, string][]) {
+    const raw = process.env[envVar]
+    if (raw !== undefined && raw !== '') {
+      values[key] = parseEnvValue(key, raw)
+      sources[key] = 'env'
+    }
+  }
+
+  const parsed = ServerConfigSchema.safeParse(values)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => {
+      const key = issue.path[0] as keyof ServerConfig | undefined
+      let origin = ''
+      if (key && sources[key] === 'env') {
+        origin = ` (from ${CONFIG_ENV_VARS[key]})`
+      } else if (key && sources[key] === 'file') {
+        origin = ` (from ${configFile})`
+      }
+      return `${issue.path.join('.') || 'config'}: ${issue.message}${origin}`
+    })
+    throw new Error(`Invalid server configuration:\n  ${issues.join('\n  ')}`)
+  }
+
+  // Relative paths are resolved from the project root
+  const config: ServerConfig = {
+    ...parsed.data,
+    profilesDir: path.resolve(PROJECT_ROOT, parsed.data.profilesDir),
+    mocksDir: path.resolve(PROJECT_ROOT, parsed.data.mocksDir),
+    screenshotsDir: path.resolve(PROJECT_ROOT, parsed.data.screenshotsDir),
+    debugArtifactsDir: path.resolve(PROJECT_ROOT, parsed.data.debugArtifactsDir),
+  }
+
+  return { config, sources, configFile: configFileExists ? configFile : null }
+}
+
+const loaded = loadServerConfig()
+
+/** Effective server configuration */
+export const serverConfig: Readonly<ServerConfig> = loaded.config
+
+/**
+ * Describe the effective configuration values and where each one came from
+ */
+export function describeServerConfig(): {
+  configFile: string | null
+  values: Record<keyof ServerConfig, { value: unknown; source: ConfigSource; envVar: string }>
+} {
+  const values = Object.fromEntries(
+    (Object.keys(serverConfig) as (keyof ServerConfig)[]).map(key => [
+      key,
+      { value: serverConfig[key], source: loaded.sources[key], envVar: CONFIG_ENV_VARS[key] },
+    ])
+  ) as Record<keyof ServerConfig, { value: unknown; source: ConfigSource; envVar: string }>
+
+  return { configFile: loaded.configFile, values }
+}
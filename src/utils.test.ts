@@ -0,0 +1,59 @@
+import fs from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio'
+import type puppeteer from 'puppeteer'
+import { describe, expect, test, vi } from 'vitest'
+import { MOCKS_DIR, RETRY_MAX_ATTEMPTS } from './config.js'
+import { AmazonErrorPageError, CaptchaChallengeError } from './errors.js'
+import { rateLimiter } from './rateLimiter.js'
+import { navigateTo } from './utils.js'
+
+// The rate limits and the retry backoff do not wait
+vi.mock('timers/promises', () => ({ setTimeout: async () => {} }))
+
+/**
+ * A page answering every navigation with the given HTML and HTTP status, its elements looked up with cheerio
+ */
+function createMockPage(html: string, status: number) {
+  const $ = cheerio.load(html)
+  let currentUrl = 'about:blank'
+  const goto = vi.fn(async (url: string) => {
+    currentUrl = url
+    return { status: () => status }
+  })
+  const page = {
+    goto,
+    url: () => currentUrl,
+    title: async () => $('title').text(),
+    $: async (selector: string) => ($(selector).length > 0 ? {} : null),
+  }
+  return { page: page as unknown as puppeteer.Page, goto }
+}
+
+describe('navigateTo', () => {
+  test('reports the CAPTCHA Amazon serves with a 503 without retrying', async () => {
+    const { page, goto } = createMockPage(fs.readFileSync(path.join(MOCKS_DIR, 'captcha.html'), 'utf-8'), 503)
+
+    const error = await navigateTo(page, 'https://www.amazon.com/gp/cart/view.html').catch(error => error)
+
+    expect(error).toBeInstanceOf(CaptchaChallengeError)
+    expect(error).toMatchObject({ code: 'CAPTCHA_CHALLENGE', retryable: false })
+    expect(goto).toHaveBeenCalledTimes(1)
+  })
+
+  test('retries a 503 of another page as a transient error', async () => {
+    const { page, goto } = createMockPage('<html><head><title>Amazon.de</title></head><body></body></html>', 503)
+
+    await expect(navigateTo(page, 'https://www.amazon.de/gp/cart/view.html')).rejects.toBeInstanceOf(AmazonErrorPageError)
+    expect(goto).toHaveBeenCalledTimes(RETRY_MAX_ATTEMPTS)
+  })
+
+  test('reuses the rate limit slot of the HTTP request for the first attempt only', async () => {
+    const { page } = createMockPage('<html><head><title>Amazon.fr</title></head><body></body></html>', 503)
+    const acquire = vi.spyOn(rateLimiter, 'acquire')
+
+    await expect(navigateTo(page, 'https://www.amazon.fr/s?k=the', 'networkidle2', { rateLimited: true })).rejects.toThrow()
+    expect(acquire).toHaveBeenCalledTimes(RETRY_MAX_ATTEMPTS - 1)
+    acquire.mockRestore()
+  })
+})
@@ -1,6 +1,38 @@
 import fs from 'fs'
-import puppeteer from 'puppeteer'
-import { IS_BROWSER_VISIBLE, getAmazonCookies } from './config.js'
+import path from 'path'
+import { setTimeout as delay } from 'timers/promises'
+import puppeteer, { TimeoutError } from 'puppeteer'
+import { z } from 'zod'
+import { getBrowserFingerprint } from './browserFingerprint.js'
+import { browserPool } from './browserPool.js'
+import {
+  BLOCKED_RESOURCES,
+  NAVIGATION_TIMEOUT_MS,
+  RESOURCE_BLOCKING_OVERRIDES,
+  RETRY_MAX_ATTEMPTS,
+  SAVE_CHALLENGE_SCREENSHOTS,
+  SCREENSHOTS_DIR,
+  getAmazonCookies,
+  getAmazonDomain,
+  getProfileSession,
+  getProfileSettings,
+  profileManager,
+} from './config.js'
+import { recordPageActivity } from './debugArtifacts.js'
+import {
+  AmazonError,
+  AmazonErrorPageError,
+  CaptchaChallengeError,
+  MfaRequiredError,
+  NavigationTimeoutError,
+  NotLoggedInError,
+  RegionRedirectError,
+} from './errors.js'
+import { OperationMode, operationQueue } from './operationQueue.js'
+import type { AmazonCookie, ProfileSettings } from './profileManager.js'
+import { getRetryDelay, rateLimiter } from './rateLimiter.js'
+import { getRequestContext } from './requestContext.js'
+import { BLOCKABLE_RESOURCES, BlockableResource } from './serverConfig.js'
 
 /** Get the current timestamp like "2024-06-06_15-30-45" */
 export function getTimestamp() {
@@ -11,46 +43,241 @@ export function getTimestamp() {
   )}`
 }
 
-export async function createBrowserAndPage(): Promise<{ browser: puppeteer.Browser; page: puppeteer.Page }> {
-  // Launch Puppeteer with system Chromium (required for ARM64/Raspberry Pi)
-  const browser = await puppeteer.launch({
-    headless: !IS_BROWSER_VISIBLE,
-    devtools: false,
-    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || '/usr/bin/chromium',
-    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-web-security', '--disable-blink-features=AutomationControlled', '--disable-gpu'],
-    ignoreDefaultArgs: ['--enable-automation'],
-    defaultViewport: null,
-  })
+/** Profile whose cookies were injected into the context of each page, used to write rotated cookies back on close */
+const pageProfiles = new WeakMap<puppeteer.Page, string>()
 
-  // Get cookies from current profile (dynamic)
-  const cookies = getAmazonCookies()
+/**
+ * How the tools working on the account state of a profile go through its operation queue:
+ * the cart mutations run alone, the reads of the cart and the orders run together between them
+ */
+const PROFILE_OPERATION_MODES: Record<string, OperationMode> = {
+  'get-cart-content': 'read',
+  'get-orders-history': 'read',
+  'add-to-cart': 'write',
+  'clear-cart': 'write',
+}
+
+/** Ends the turn of each page in the operation queue of its profile, when closed */
+const pageOperations = new WeakMap<puppeteer.Page, () => void>()
+
+/** Tools that only parse the HTML of the pages they load, the blocked resources apply to them by default */
+const READ_ONLY_TOOLS = new Set(['search-products', 'get-product-details', 'get-cart-content', 'get-orders-history', 'validate-profile'])
+
+/** Hosts of the third-party analytics and ad trackers loaded by the Amazon pages */
+const ANALYTICS_HOSTS = [
+  'amazon-adsystem.com',
+  'doubleclick.net',
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googlesyndication.com',
+  'facebook.net',
+  'scorecardresearch.com',
+  'criteo.com',
+]
+
+/**
+ * Get the resources the pages of a tool do not load: the override configured for the tool,
+ * or the blocked resources for the read-only tools. The flows clicking through pages load everything.
+ */
+export function getResourcePolicy(tool: string): BlockableResource[] {
+  return RESOURCE_BLOCKING_OVERRIDES[tool] ?? (READ_ONLY_TOOLS.has(tool) ? BLOCKED_RESOURCES : [])
+}
+
+/**
+ * Get the blockable category of a request, if any
+ */
+function getRequestCategory(request: puppeteer.HTTPRequest): BlockableResource | null {
+  const hostname = new URL(request.url()).hostname
+  if (ANALYTICS_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+    return 'analytics'
+  }
+  const resourceType = request.resourceType()
+  return resourceType === 'image' || resourceType === 'media' || resourceType === 'font' || resourceType === 'stylesheet' ? resourceType : null
+}
+
+export const ScrapingStatsSchema = z.object({
+  tool: z.string(),
+  blockedResources: z.array(z.enum(BLOCKABLE_RESOURCES)).describe('The resource policy the pages were loaded with'),
+  navigations: z.number(),
+  averageNavigationMs: z.number().describe('Average time to load a page, until the network is idle'),
+  requests: z.number(),
+  blockedRequests: z.number(),
+  blockedByResource: z.record(z.number()),
+})
+
+export type ScrapingStats = z.infer<typeof ScrapingStatsSchema>
+
+/** Page loading statistics per tool and resource policy, since the server started */
+const scrapingStats = new Map<string, ScrapingStats & { totalNavigationMs: number }>()
 
-  // Set cookies if available
-  if (cookies?.length > 0) {
-    await browser.setCookie(...cookies)
-    console.error('[INFO] Set Amazon cookies in the browser')
-  } else {
-    console.error('[WARN] No Amazon cookies found, proceeding without them')
+/** Statistics entry the requests and navigations of each page are counted in */
+const pageStats = new WeakMap<puppeteer.Page, ScrapingStats & { totalNavigationMs: number }>()
+
+/**
+ * Get the page loading statistics of each tool and resource policy. Comparing the average navigation time of a tool
+ * with and without blocked resources shows the time saved.
+ */
+export function getScrapingStats(): ScrapingStats[] {
+  return [...scrapingStats.values()].map(({ totalNavigationMs, ...stats }) => ({
+    ...stats,
+    averageNavigationMs: stats.navigations > 0 ? Math.round(totalNavigationMs / stats.navigations) : 0,
+  }))
+}
+
+/**
+ * Abort the requests of the blocked resources of a page, and count the requests in the statistics of the tool
+ */
+async function applyResourcePolicy(page: puppeteer.Page, tool: string): Promise<void> {
+  const blockedResources = getResourcePolicy(tool)
+  const key = `${tool}|${blockedResources.join(',')}`
+  let stats = scrapingStats.get(key)
+  if (!stats) {
+    stats = {
+      tool,
+      blockedResources,
+      navigations: 0,
+      averageNavigationMs: 0,
+      totalNavigationMs: 0,
+      requests: 0,
+      blockedRequests: 0,
+      blockedByResource: {},
+    }
+    scrapingStats.set(key, stats)
   }
+  pageStats.set(page, stats)
 
-  const page = await browser.newPage()
+  // Request interception disables the browser cache, only enable it when something is blocked
+  if (blockedResources.length === 0) {
+    page.on('request', () => stats.requests++)
+    return
+  }
 
-  // Remove automation indicators
-  await page.evaluateOnNewDocument(() => {
-    Object.defineProperty(navigator, 'webdriver', {
-      get: () => undefined,
-    })
+  await page.setRequestInterception(true)
+  page.on('request', request => {
+    stats.requests++
+    // The CAPTCHA image is kept for the challenge screenshots
+    const category = request.isNavigationRequest() || request.url().includes('/captcha/') ? null : getRequestCategory(request)
+    if (category && blockedResources.includes(category)) {
+      stats.blockedRequests++
+      stats.blockedByResource[category] = (stats.blockedByResource[category] ?? 0) + 1
+      request.abort('blockedbyclient').catch(() => {})
+    } else {
+      request.continue().catch(() => {})
+    }
   })
+}
+
+/**
+ * Get the cookies of the current profile, with its display currency preference
+ */
+export function getProfileCookies(): AmazonCookie[] {
+  const cookies = [...getAmazonCookies()]
+
+  // Amazon stores the display currency preference in the `i18n-prefs` cookie
+  const currency = getProfileSettings().currency
+  if (currency) {
+    cookies.push({ name: 'i18n-prefs', value: currency, domain: `.${getAmazonDomain()}`, path: '/' })
+  }
+  return cookies
+}
+
+/**
+ * Open a page for a tool, in the pooled browser context of the current profile or in a context of its own
+ * for the given profile data. The resources blocked for the tool are not loaded.
+ * The cart and order tools first wait for their turn in the operation queue of the profile, until `closePage`.
+ */
+export async function openPage(
+  tool: string,
+  profileOverride?: { cookies: AmazonCookie[]; settings: ProfileSettings; domain: string }
+): Promise<puppeteer.Page> {
+  throwIfCancelled()
+
+  // Get cookies from current profile (dynamic)
+  const cookies = profileOverride?.cookies ?? getProfileCookies()
+  const settings = profileOverride?.settings ?? getProfileSettings()
+  const domain = profileOverride?.domain ?? getAmazonDomain()
+
+  const profileName = profileOverride ? null : getProfileSession().getCurrentProfile()
+  const signal = getRequestContext()?.signal
 
-  // Set user agent to match real browser
-  await page.setUserAgent(
-    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/137.0.0.0 Safari/537.36'
-  )
+  // Waiting before acquiring the page, so the queued operations do not hold the pages of the pool
+  const operationMode = PROFILE_OPERATION_MODES[tool]
+  const releaseOperation = profileName && operationMode ? await operationQueue.acquire(profileName, operationMode, tool, signal) : () => {}
 
-  // Set viewport
-  await page.setViewport({ width: 1366, height: 768 })
+  let page: puppeteer.Page
+  try {
+    page = await browserPool.acquirePage(profileName, cookies, getBrowserFingerprint(settings, domain), signal)
+  } catch (error) {
+    releaseOperation()
+    throw error
+  }
+  if (profileName) {
+    pageProfiles.set(page, profileName)
+  }
+  pageOperations.set(page, releaseOperation)
 
-  return { browser, page }
+  recordPageActivity(page)
+  try {
+    await applyResourcePolicy(page, tool)
+  } catch (error) {
+    await browserPool.releasePage(page)
+    releaseOperation()
+    throw error
+  }
+
+  // Close the page as soon as the client cancels the request, which interrupts the pending navigation or selector wait
+  if (signal) {
+    const onAbort = () => {
+      console.error('[INFO] Request cancelled by the client, closing the page')
+      page.close().catch(() => {})
+    }
+    if (signal.aborted) {
+      await browserPool.releasePage(page)
+      releaseOperation()
+      throwIfCancelled()
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    page.once('close', () => signal.removeEventListener('abort', onAbort))
+  }
+
+  return page
+}
+
+/**
+ * Close a page opened with `openPage`, first writing the Amazon cookies rotated during the operation back to the profile they came from
+ */
+export async function closePage(page: puppeteer.Page): Promise<void> {
+  const profileName = pageProfiles.get(page)
+  try {
+    // Closed already when the request was cancelled, the rotated cookies are kept in the browser context.
+    // The cookies of an invalidated context predate a replacement of the profile cookies, possibly of another account.
+    if (profileName && browserPool.isInvalidated(page)) {
+      console.error(`[INFO] The cookies of profile ${profileName} were replaced during the operation, not saving the rotated cookies`)
+    } else if (profileName && !page.isClosed()) {
+      const cookies = (await page.browserContext().cookies())
+        .filter(cookie => cookie.domain.includes('amazon'))
+        .map(
+          (cookie): AmazonCookie => ({
+            domain: cookie.domain,
+            name: cookie.name,
+            value: cookie.value,
+            path: cookie.path,
+            expirationDate: cookie.session || cookie.expires <= 0 ? undefined : cookie.expires,
+            hostOnly: !cookie.domain.startsWith('.'),
+            httpOnly: cookie.httpOnly,
+            secure: cookie.secure,
+            session: cookie.session,
+            sameSite: cookie.sameSite,
+          })
+        )
+      profileManager.mergeRotatedCookies(profileName, cookies)
+    }
+  } catch (error: any) {
+    console.error(`[WARN] Failed to save rotated cookies for profile ${profileName}: ${error.message}`)
+  } finally {
+    await browserPool.releasePage(page)
+    pageOperations.get(page)?.()
+  }
 }
 
 export async function downloadImageAsBase64(url: string): Promise<string> {
@@ -61,9 +288,184 @@ export async function downloadImageAsBase64(url: string): Promise<string> {
   return `${b64}`
 }
 
+/**
+ * What Amazon served for a requested page
+ * - `content`: the requested page
+ * - `captcha`: the "Enter the characters you see below" robot check
+ * - `mfa`: a one-time code or account verification form
+ * - `sign-in`: the sign-in form, the cookies are missing or expired
+ * - `error`: the "Sorry! Something went wrong!" page
+ * - `region-redirect`: a page of another marketplace than the requested one
+ */
+export type PageKind = 'content' | 'captcha' | 'mfa' | 'sign-in' | 'error' | 'region-redirect'
+
+const CAPTCHA_SELECTORS = ['form[action*="/errors/validateCaptcha"]', '#captchacharacters']
+const MFA_SELECTORS = ['#auth-mfa-form', '#auth-mfa-otpcode', 'input[name="otpCode"]', 'form[action*="/ap/cvf/"]', '#cvf-page-content']
+const SIGN_IN_SELECTORS = ['#ap_email', '#signInSubmit']
+
+/**
+ * Get the marketplace of an Amazon URL, e.g. "amazon.de" for https://www.amazon.de/gp/cart/view.html
+ */
+function getMarketplace(url: string): string {
+  return new URL(url).hostname.replace(/^(www|smile)\./, '')
+}
+
+/**
+ * Recognize the pages Amazon serves instead of the requested one
+ */
+export async function classifyPage(page: puppeteer.Page, requestedUrl: string): Promise<PageKind> {
+  const hasElement = async (selectors: string[]) => (await page.$(selectors.join(', '))) !== null
+  const url = page.url()
+
+  if (await hasElement(CAPTCHA_SELECTORS)) {
+    return 'captcha'
+  }
+  if (/\/ap\/(mfa|cvf)\b/.test(url) || (await hasElement(MFA_SELECTORS))) {
+    return 'mfa'
+  }
+  if (await hasElement(SIGN_IN_SELECTORS)) {
+    return 'sign-in'
+  }
+  if (/sorry!? something went wrong/i.test(await page.title())) {
+    return 'error'
+  }
+  if (url.startsWith('http') && getMarketplace(url) !== getMarketplace(requestedUrl)) {
+    return 'region-redirect'
+  }
+  return 'content'
+}
+
+/**
+ * Save a screenshot of a challenge page for the user, when enabled
+ *
+ * @returns the path of the screenshot, if saved
+ */
+async function saveChallengeScreenshot(page: puppeteer.Page, kind: PageKind): Promise<string | undefined> {
+  if (!SAVE_CHALLENGE_SCREENSHOTS) {
+    return undefined
+  }
+  try {
+    fs.mkdirSync(SCREENSHOTS_DIR, { recursive: true })
+    const screenshotPath: `${string}.png` = `${path.join(SCREENSHOTS_DIR, `${kind}_${getTimestamp()}`)}.png`
+    await page.screenshot({ path: screenshotPath })
+    console.error(`[INFO] Saved a screenshot of the ${kind} page to ${screenshotPath}`)
+    return screenshotPath
+  } catch (error: any) {
+    console.error(`[WARN] Failed to save a screenshot of the ${kind} page: ${error.message}`)
+    return undefined
+  }
+}
+
+/**
+ * Throw the error matching a page Amazon served instead of the requested one
+ */
+async function throwIfUnexpectedPage(page: puppeteer.Page, requestedUrl: string): Promise<void> {
+  const kind = await classifyPage(page, requestedUrl)
+  switch (kind) {
+    case 'captcha':
+      throw new CaptchaChallengeError(requestedUrl, await saveChallengeScreenshot(page, kind))
+    case 'mfa':
+      throw new MfaRequiredError(requestedUrl, await saveChallengeScreenshot(page, kind))
+    case 'sign-in':
+      throw new NotLoggedInError()
+    case 'error':
+      throw new AmazonErrorPageError(requestedUrl)
+    case 'region-redirect':
+      throw new RegionRedirectError(requestedUrl, page.url())
+  }
+}
+
+/**
+ * Get the key the requests to Amazon are rate limited by: the profile and the marketplace
+ */
+export function getRateLimitKey(profileName: string | null, url: string): string {
+  return `${profileName ?? 'anonymous'}@${getMarketplace(url)}`
+}
+
+/**
+ * Navigate to an Amazon page, raising a typed error when it times out or Amazon answers with a CAPTCHA,
+ * a verification, the sign-in form, an error page or a page of another marketplace.
+ * The navigation waits for its turn in the rate limits of the profile, and is retried with backoff
+ * when it times out or Amazon answers with an error page.
+ *
+ * @param options.rateLimited the page was just requested over HTTP (see `fetchPageHtml`), the first attempt reuses its slot
+ */
+export async function navigateTo(
+  page: puppeteer.Page,
+  url: string,
+  waitUntil: puppeteer.PuppeteerLifeCycleEvent = 'networkidle2',
+  options: { rateLimited?: boolean } = {}
+): Promise<void> {
+  const rateLimitKey = getRateLimitKey(pageProfiles.get(page) ?? null, url)
+  for (let attempt = 1; ; attempt++) {
+    if (attempt > 1 || !options.rateLimited) {
+      await rateLimiter.acquire(rateLimitKey, getRequestContext()?.signal)
+    }
+    try {
+      await loadPage(page, url, waitUntil)
+      return
+    } catch (error) {
+      if (!(error instanceof AmazonError && error.retryable) || attempt >= RETRY_MAX_ATTEMPTS) {
+        throw error
+      }
+      const retryDelay = getRetryDelay(attempt)
+      console.error(`[WARN] ${error.message} Retrying in ${retryDelay} ms (attempt ${attempt + 1} of ${RETRY_MAX_ATTEMPTS})`)
+      await sleep(retryDelay)
+    }
+  }
+}
+
+/**
+ * Load an Amazon page once, see `navigateTo`
+ */
+async function loadPage(page: puppeteer.Page, url: string, waitUntil: puppeteer.PuppeteerLifeCycleEvent): Promise<void> {
+  const startedAt = Date.now()
+  let response: puppeteer.HTTPResponse | null
+  try {
+    response = await page.goto(url, { waitUntil, timeout: NAVIGATION_TIMEOUT_MS })
+  } catch (error) {
+    throwIfCancelled()
+    if (error instanceof TimeoutError) {
+      throw new NavigationTimeoutError(url, NAVIGATION_TIMEOUT_MS)
+    }
+    throw error
+  }
+
+  const stats = pageStats.get(page)
+  if (stats) {
+    const navigationMs = Date.now() - startedAt
+    stats.navigations++
+    stats.totalNavigationMs += navigationMs
+    console.error(`[INFO][${stats.tool}] Loaded ${url} in ${navigationMs} ms (blocked resources: ${stats.blockedResources.join(', ') || 'none'})`)
+  }
+
+  // Amazon also serves its robot check with a 503: a challenge must be reported, retrying it would look even more like a robot
+  await throwIfUnexpectedPage(page, url)
+  // Amazon answers 503 with its "dogs of Amazon" page when it throttles or is down
+  if (response && response.status() >= 500) {
+    throw new AmazonErrorPageError(url)
+  }
+}
+
+/**
+ * Throw if the client cancelled the current request, so a failure caused by the closed page is not reported as another error
+ */
+export function throwIfCancelled(): void {
+  if (getRequestContext()?.signal?.aborted) {
+    throw new Error('The request was cancelled by the client')
+  }
+}
+
+/**
+ * Wait for the given delay, interrupted when the client cancels the current request
+ */
+export async function sleep(ms: number): Promise<void> {
+  await delay(ms, undefined, { signal: getRequestContext()?.signal })
+}
+
 export async function throwIfNotLoggedIn(page: puppeteer.Page): Promise<void> {
-  const isLoginPage = (await page.$('#ap_email')) !== null || (await page.$('#signInSubmit')) !== null
+  const isLoginPage = (await page.$(SIGN_IN_SELECTORS.join(', '))) !== null
   if (isLoginPage) {
-    throw new Error('You need to be logged in to access this feature. Please log in to Amazon first and then try again.')
+    throw new NotLoggedInError()
   }
 }
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    globalSetup: ['vitest.globalSetup.ts'],
+    // The server configuration is read from the environment when the modules load:
+    // the tests parse the mock pages, and never reach Amazon
+    env: {
+      AMAZON_MCP_USE_MOCKS: 'true',
+      AMAZON_MCP_MOCKS_DIR: 'mocks',
+      AMAZON_MCP_CAPTURE_DEBUG_ARTIFACTS: 'false',
+    },
+  },
+})
@@ -0,0 +1,12 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+/**
+ * Give the test run a profiles directory of its own, so the tool tests never touch the real profiles
+ */
+export function setup(): () => void {
+  const profilesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-amazon-profiles-'))
+  process.env.AMAZON_MCP_PROFILES_DIR = profilesDir
+  return () => fs.rmSync(profilesDir, { recursive: true, force: true })
+}